@@ -0,0 +1,111 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+import { loadConfig } from './config';
+
+describe('loadConfig', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'penguinblur-config-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeConfigFile = (contents: string): string => {
+        const filePath = join(dir, 'config.json');
+        writeFileSync(filePath, contents);
+        return filePath;
+    };
+
+    it('uses the defaults without any settings', () => {
+        const config = loadConfig({});
+
+        expect(config.port).toBe(3001);
+        expect(config.isProduction).toBe(false);
+        expect(config.fileExpiryMs).toBe(15 * 60 * 1000);
+        expect(config.maxFileSize).toBe(50 * 1024 * 1024);
+        expect(config.maxRequestBodySize).toBe(50 * 1024 * 1024);
+        expect(config.processingWorkers).toBe(1);
+        expect(config.jobStore).toBe('journal');
+    });
+
+    it('converts minutes and megabytes from the environment', () => {
+        const config = loadConfig({
+            NODE_ENV: 'production',
+            FILE_EXPIRY_TIME: '30',
+            FILE_CLEANUP_INTERVAL: '10',
+            MAX_UPLOAD_SIZE_MB: '4096',
+            MAX_REQUEST_BODY_MB: '2',
+            JOB_JOURNAL_PATH: 'data/jobs.journal',
+        });
+
+        expect(config.isProduction).toBe(true);
+        expect(config.fileExpiryMs).toBe(30 * 60 * 1000);
+        expect(config.cleanupIntervalMs).toBe(10 * 60 * 1000);
+        expect(config.maxResumableUploadSize).toBe(4096 * 1024 * 1024);
+        expect(config.maxRequestBodySize).toBe(2 * 1024 * 1024);
+        expect(config.jobJournalPath).toBe(resolve('data/jobs.journal'));
+    });
+
+    it('ignores empty environment variables', () => {
+        expect(loadConfig({ PORT: '' }).port).toBe(3001);
+    });
+
+    it('lets the environment override the config file', () => {
+        const filePath = writeConfigFile(JSON.stringify({
+            port: 4000,
+            files: { expiryMinutes: 60 },
+        }));
+
+        const config = loadConfig({ CONFIG_FILE: filePath, PORT: '5000' });
+
+        expect(config.port).toBe(5000);
+        expect(config.fileExpiryMs).toBe(60 * 60 * 1000);
+    });
+
+    it('lists every invalid value at once', () => {
+        expect(() => loadConfig({
+            PORT: 'abc',
+            FILE_EXPIRY_TIME: '900000',
+            PROCESSING_WORKERS: '0',
+            JOB_STORE: 'redis',
+        })).toThrow(new Error([
+            'Invalid configuration:',
+            '  - port (PORT) must be an integer between 1 and 65535, got "abc"',
+            '  - files.expiryMinutes (FILE_EXPIRY_TIME) must be an integer between 1 and 10080, got 900000',
+            '  - processing.workers (PROCESSING_WORKERS) must be an integer between 1 and 64, got 0',
+            '  - jobs.store (JOB_STORE) must be one of journal, memory, got "redis"',
+        ].join('\n')));
+    });
+
+    it('reports settings missing a maximum with their minimum only', () => {
+        expect(() => loadConfig({ RENDER_TIMEOUT: '5' }))
+            .toThrow('processing.renderTimeoutSeconds (RENDER_TIMEOUT) must be an integer of at least 10, got 5');
+    });
+
+    it('rejects unknown keys and wrong shapes in the config file', () => {
+        const filePath = writeConfigFile(JSON.stringify({
+            prot: 4000,
+            files: 15,
+            uploads: { maxFileSizeMB: 10 },
+        }));
+
+        expect(() => loadConfig({ CONFIG_FILE: filePath })).toThrow(new Error([
+            'Invalid configuration:',
+            '  - prot is not a known setting',
+            '  - files must be an object',
+            '  - uploads.maxFileSizeMB is not a known setting',
+        ].join('\n')));
+    });
+
+    it('rejects a config file that is missing or not JSON', () => {
+        const missing = join(dir, 'missing.json');
+        expect(() => loadConfig({ CONFIG_FILE: missing })).toThrow(`CONFIG_FILE ${missing} does not exist`);
+
+        const filePath = writeConfigFile('{ port: 4000 }');
+        expect(() => loadConfig({ CONFIG_FILE: filePath })).toThrow(`CONFIG_FILE ${filePath} is not valid JSON`);
+    });
+});
@@ -0,0 +1,265 @@
+import { existsSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join, resolve } from 'path';
+
+// Every setting the server reads, in the units it is configured in. Values
+// come from the defaults, then an optional JSON file named by CONFIG_FILE
+// with the same shape, then environment variables.
+interface ConfigSettings {
+    port: number;
+    nodeEnv: string;
+    frontendUrl: string;
+    tempDir: string;
+    files: {
+        expiryMinutes: number;
+        cleanupIntervalMinutes: number;
+    };
+    uploads: {
+        maxFileSizeMb: number; // one multipart request, per file
+        maxResumableSizeMb: number; // chunked uploads
+        maxBatchFiles: number;
+        maxReferencePhotos: number;
+        maxRequestBodyMb: number; // JSON and form bodies, files go through multer
+    };
+    processing: {
+        renderTimeoutSeconds: number;
+        thumbnailTimeoutSeconds: number;
+        orientationTimeoutSeconds: number;
+        workers: number; // jobs detecting or rendering at the same time
+        maxQueuedJobs: number; // jobs waiting for a worker
+    };
+    archives: {
+        maxFiles: number;
+    };
+    jobs: {
+        store: string; // 'journal' keeps jobs across restarts, 'memory' does not
+        journalPath: string;
+    };
+}
+
+type SettingType = 'integer' | 'string';
+
+interface SettingSchema {
+    path: string;
+    env: string;
+    type: SettingType;
+    min?: number;
+    max?: number;
+    values?: string[]; // allowed values of a string setting
+}
+
+const DEFAULT_SETTINGS: ConfigSettings = {
+    port: 3001,
+    nodeEnv: 'development',
+    frontendUrl: 'http://localhost:3000',
+    tempDir: join(tmpdir(), 'penguinblur'),
+    files: {
+        expiryMinutes: 15,
+        cleanupIntervalMinutes: 5,
+    },
+    uploads: {
+        maxFileSizeMb: 50,
+        maxResumableSizeMb: 2048,
+        maxBatchFiles: 50,
+        maxReferencePhotos: 5,
+        maxRequestBodyMb: 50,
+    },
+    processing: {
+        renderTimeoutSeconds: 300,
+        thumbnailTimeoutSeconds: 30,
+        orientationTimeoutSeconds: 60,
+        workers: 1,
+        maxQueuedJobs: 20,
+    },
+    archives: {
+        maxFiles: 50,
+    },
+    jobs: {
+        store: 'journal',
+        // Outside tempDir, whose old files are swept as orphans
+        journalPath: join(tmpdir(), 'penguinblur-data', 'jobs.journal'),
+    },
+};
+
+const SCHEMA: SettingSchema[] = [
+    { path: 'port', env: 'PORT', type: 'integer', min: 1, max: 65535 },
+    { path: 'nodeEnv', env: 'NODE_ENV', type: 'string' },
+    { path: 'frontendUrl', env: 'FRONTEND_URL', type: 'string' },
+    { path: 'tempDir', env: 'TEMP_DIR', type: 'string' },
+    { path: 'files.expiryMinutes', env: 'FILE_EXPIRY_TIME', type: 'integer', min: 1, max: 7 * 24 * 60 },
+    { path: 'files.cleanupIntervalMinutes', env: 'FILE_CLEANUP_INTERVAL', type: 'integer', min: 1, max: 24 * 60 },
+    { path: 'uploads.maxFileSizeMb', env: 'MAX_FILE_SIZE_MB', type: 'integer', min: 1, max: 1024 },
+    { path: 'uploads.maxResumableSizeMb', env: 'MAX_UPLOAD_SIZE_MB', type: 'integer', min: 1, max: 100 * 1024 },
+    { path: 'uploads.maxBatchFiles', env: 'MAX_BATCH_FILES', type: 'integer', min: 1, max: 500 },
+    { path: 'uploads.maxReferencePhotos', env: 'MAX_REFERENCE_PHOTOS', type: 'integer', min: 0, max: 50 },
+    { path: 'uploads.maxRequestBodyMb', env: 'MAX_REQUEST_BODY_MB', type: 'integer', min: 1, max: 1024 },
+    { path: 'processing.renderTimeoutSeconds', env: 'RENDER_TIMEOUT', type: 'integer', min: 10 },
+    { path: 'processing.thumbnailTimeoutSeconds', env: 'THUMBNAIL_TIMEOUT', type: 'integer', min: 1 },
+    { path: 'processing.orientationTimeoutSeconds', env: 'ORIENTATION_TIMEOUT', type: 'integer', min: 1 },
+    { path: 'processing.workers', env: 'PROCESSING_WORKERS', type: 'integer', min: 1, max: 64 },
+    { path: 'processing.maxQueuedJobs', env: 'MAX_QUEUED_JOBS', type: 'integer', min: 0, max: 10000 },
+    { path: 'archives.maxFiles', env: 'MAX_ARCHIVE_FILES', type: 'integer', min: 1, max: 500 },
+    { path: 'jobs.store', env: 'JOB_STORE', type: 'string', values: ['journal', 'memory'] },
+    { path: 'jobs.journalPath', env: 'JOB_JOURNAL_PATH', type: 'string' },
+];
+
+export interface AppConfig {
+    port: number;
+    nodeEnv: string;
+    isProduction: boolean;
+    frontendUrl: string;
+    tempDir: string; // uploads, outputs and thumbnails
+    fileExpiryMs: number;
+    cleanupIntervalMs: number;
+    maxFileSize: number; // bytes
+    maxResumableUploadSize: number; // bytes
+    maxBatchFiles: number;
+    maxReferencePhotos: number;
+    maxRequestBodySize: number; // bytes
+    renderTimeoutSeconds: number;
+    thumbnailTimeoutSeconds: number;
+    orientationTimeoutSeconds: number;
+    processingWorkers: number;
+    maxQueuedJobs: number;
+    maxArchiveFiles: number;
+    jobStore: 'journal' | 'memory';
+    jobJournalPath: string;
+}
+
+const MB = 1024 * 1024;
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+    const settings: ConfigSettings = JSON.parse(JSON.stringify(DEFAULT_SETTINGS));
+    const errors: string[] = [];
+
+    if (env.CONFIG_FILE) {
+        applyConfigFile(settings, resolve(env.CONFIG_FILE), errors);
+    }
+
+    for (const field of SCHEMA) {
+        const raw = env[field.env];
+        if (raw !== undefined && raw !== '') {
+            // Anything that is not a plain integer is kept as text for the error message
+            setSetting(settings, field.path, field.type === 'integer' && /^-?\d+$/.test(raw) ? Number(raw) : raw);
+        }
+    }
+
+    for (const field of SCHEMA) {
+        const error = validateSetting(field, getSetting(settings, field.path));
+        if (error) {
+            errors.push(error);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid configuration:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    return {
+        port: settings.port,
+        nodeEnv: settings.nodeEnv,
+        isProduction: settings.nodeEnv === 'production',
+        frontendUrl: settings.frontendUrl,
+        tempDir: settings.tempDir,
+        fileExpiryMs: settings.files.expiryMinutes * 60 * 1000,
+        cleanupIntervalMs: settings.files.cleanupIntervalMinutes * 60 * 1000,
+        maxFileSize: settings.uploads.maxFileSizeMb * MB,
+        maxResumableUploadSize: settings.uploads.maxResumableSizeMb * MB,
+        maxBatchFiles: settings.uploads.maxBatchFiles,
+        maxReferencePhotos: settings.uploads.maxReferencePhotos,
+        maxRequestBodySize: settings.uploads.maxRequestBodyMb * MB,
+        renderTimeoutSeconds: settings.processing.renderTimeoutSeconds,
+        thumbnailTimeoutSeconds: settings.processing.thumbnailTimeoutSeconds,
+        orientationTimeoutSeconds: settings.processing.orientationTimeoutSeconds,
+        processingWorkers: settings.processing.workers,
+        maxQueuedJobs: settings.processing.maxQueuedJobs,
+        maxArchiveFiles: settings.archives.maxFiles,
+        jobStore: settings.jobs.store as AppConfig['jobStore'],
+        jobJournalPath: resolve(settings.jobs.journalPath),
+    };
+}
+
+// Merges the file over the defaults. Unknown keys are reported so a typo
+// does not silently fall back to a default
+function applyConfigFile(settings: ConfigSettings, filePath: string, errors: string[]): void {
+    if (!existsSync(filePath)) {
+        errors.push(`CONFIG_FILE ${filePath} does not exist`);
+        return;
+    }
+
+    let contents: unknown;
+    try {
+        contents = JSON.parse(readFileSync(filePath, 'utf8'));
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`CONFIG_FILE ${filePath} is not valid JSON: ${message}`);
+        return;
+    }
+
+    const known = new Set(SCHEMA.map(field => field.path));
+
+    const visit = (value: unknown, prefix: string) => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            errors.push(`${prefix || 'CONFIG_FILE'} must be an object`);
+            return;
+        }
+
+        for (const [key, child] of Object.entries(value)) {
+            const path = prefix ? `${prefix}.${key}` : key;
+
+            if (known.has(path)) {
+                setSetting(settings, path, child);
+            } else if (SCHEMA.some(field => field.path.startsWith(`${path}.`))) {
+                visit(child, path);
+            } else {
+                errors.push(`${path} is not a known setting`);
+            }
+        }
+    };
+
+    visit(contents, '');
+}
+
+function validateSetting(field: SettingSchema, value: unknown): string | null {
+    const name = `${field.path} (${field.env})`;
+
+    if (field.type === 'string') {
+        if (field.values && !field.values.includes(value as string)) {
+            return `${name} must be one of ${field.values.join(', ')}, got ${JSON.stringify(value)}`;
+        }
+        return typeof value === 'string' && value.length > 0 ? null : `${name} must be a non-empty string`;
+    }
+
+    const min = field.min ?? -Infinity;
+    const max = field.max ?? Infinity;
+
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        const range = field.max !== undefined ? `between ${min} and ${max}` : `of at least ${min}`;
+        return `${name} must be an integer ${range}, got ${JSON.stringify(value)}`;
+    }
+
+    return null;
+}
+
+// Settings walked by a dotted path like 'files.expiryMinutes'
+type SettingsNode = Record<string, unknown>;
+
+function getSetting(settings: ConfigSettings, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (node, key) => (typeof node === 'object' && node !== null ? (node as SettingsNode)[key] : undefined),
+        settings
+    );
+}
+
+// Every path in SCHEMA has its parent objects in DEFAULT_SETTINGS
+function setSetting(settings: ConfigSettings, path: string, value: unknown): void {
+    const keys = path.split('.');
+    const parent = keys.slice(0, -1).reduce<SettingsNode>(
+        (node, key) => node[key] as SettingsNode,
+        settings as unknown as SettingsNode
+    );
+    parent[keys[keys.length - 1]] = value;
+}
+
+export const config = loadConfig();
+
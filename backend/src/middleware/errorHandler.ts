@@ -1,4 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 
 export interface CustomError extends Error {
@@ -44,7 +45,7 @@ export const errorHandler = (
 
     // File upload errors
     if (err.code === 'LIMIT_FILE_SIZE') {
-        const message = 'File size too large. Maximum file size is 50MB.';
+        const message = `File size too large. Maximum file size is ${Math.round(config.maxFileSize / 1024 / 1024)}MB.`;
         error = { ...error, message, statusCode: 400 };
     }
 
@@ -68,7 +69,7 @@ export const errorHandler = (
     res.status(error.statusCode || 500).json({
         success: false,
         error: error.message || 'Internal Server Error',
-        ...(process.env.NODE_ENV === 'development' && { stack: err.stack }),
+        ...(config.nodeEnv === 'development' && { stack: err.stack }),
     });
 };
 
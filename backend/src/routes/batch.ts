@@ -0,0 +1,203 @@
+import { Router, Request, Response } from 'express';
+import { archiveService } from '../services/archives';
+import { batchService } from '../services/batches';
+import { cleanupService, FileJob } from '../services/cleanup';
+import type { FaceDetectionOptions } from '../services/faceDetection';
+import { jobQueue } from '../services/jobQueue';
+import { verifyJobToken } from '../services/jobTokens';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { asyncHandler } from '../middleware/errorHandler';
+import { findOwnedBatch } from './jobAccess';
+import { parseDetectionOptions, parsePriority, parseRenderOptions } from './processingOptions';
+
+const router = Router();
+
+// Process every file of a batch with one settings profile. The body takes the
+// same options as /api/video/process; files run one after the other
+router.post('/:batchId/process', asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+    const batch = findOwnedBatch(req);
+
+    if (!batch) {
+        return res.status(404).json({
+            success: false,
+            message: 'Batch not found or has expired',
+        });
+    }
+
+    if (batchService.isRunning(batch)) {
+        return res.status(400).json({
+            success: false,
+            message: 'Batch is already being processed',
+        });
+    }
+
+    const { renderOptions, error: validationError } = parseRenderOptions(req.body);
+
+    if (!renderOptions) {
+        return res.status(400).json({
+            success: false,
+            message: validationError,
+        });
+    }
+
+    const { priority, error: priorityError } = parsePriority(req.body);
+
+    if (!priority) {
+        return res.status(400).json({
+            success: false,
+            message: priorityError,
+        });
+    }
+
+    // Validated per file since reference photo ids and media type belong to the job
+    const detectionOptions = new Map<string, FaceDetectionOptions>();
+
+    for (const fileId of batch.fileIds) {
+        const job = cleanupService.getJob(fileId);
+
+        if (!job) {
+            continue;
+        }
+
+        const { detectionOptions: options, error: detectionError } = parseDetectionOptions(req.body, job);
+
+        if (!options) {
+            return res.status(400).json({
+                success: false,
+                message: detectionError,
+            });
+        }
+
+        detectionOptions.set(fileId, options);
+    }
+
+    // Files are queued one at a time, so a full queue is only caught up front
+    if (jobQueue.isFull()) {
+        return res.status(503).json({
+            success: false,
+            message: `The processing queue is full (${config.maxQueuedJobs} jobs waiting), please try again later`,
+        });
+    }
+
+    logger.info('Starting batch processing', {
+        batchId,
+        files: detectionOptions.size,
+        renderOptions,
+        priority,
+    });
+
+    // Start processing in background
+    batchService.processBatch(batch, renderOptions, detectionOptions, priority).catch(error => {
+        logger.error('Batch processing failed', {
+            batchId,
+            error: error instanceof Error ? error.message : String(error),
+        });
+    });
+
+    return res.status(200).json({
+        success: true,
+        message: 'Batch processing started',
+        data: batchService.getProgress(batch),
+    });
+}));
+
+// Zip of chosen jobs' outputs, e.g. /archive?fileIds=id1,id2&tokens=token1,token2
+// with the access token of every file in the same order
+router.get('/archive', asyncHandler(async (req: Request, res: Response) => {
+    const ids = typeof req.query.fileIds === 'string' ? req.query.fileIds.split(',').map(id => id.trim()) : [];
+    const tokens = typeof req.query.tokens === 'string' ? req.query.tokens.split(',') : [];
+    const fileIds = Array.from(new Set(ids.filter(Boolean)));
+
+    // A batch archive covers the whole batch, an archive picked by id is capped
+    if (fileIds.length === 0 || fileIds.length > config.maxArchiveFiles) {
+        return res.status(400).json({
+            success: false,
+            message: `fileIds must list between 1 and ${config.maxArchiveFiles} file ids`,
+        });
+    }
+
+    const ownedJobs = new Map<string, FileJob>();
+
+    ids.forEach((fileId, index) => {
+        const job = cleanupService.getJob(fileId);
+        if (job && verifyJobToken(job, tokens[index])) {
+            ownedJobs.set(fileId, job);
+        }
+    });
+
+    // Missing jobs are reported in the manifest, but an archive of nothing but
+    // missing jobs is not worth sending
+    if (ownedJobs.size === 0) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    // Jobs without a matching token are listed just like expired ones
+    return sendArchive(res, fileIds, new Map(), 'penguinblur-files.zip', fileId => ownedJobs.get(fileId));
+}));
+
+// Zip of every processed file in a batch
+router.get('/:batchId/archive', asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+    const batch = findOwnedBatch(req);
+
+    if (!batch) {
+        return res.status(404).json({
+            success: false,
+            message: 'Batch not found or has expired',
+        });
+    }
+
+    return sendArchive(res, batch.fileIds, batchService.getOriginalNames(batch), `penguinblur-batch-${batchId}.zip`);
+}));
+
+// Batch status with overall and per-file progress
+router.get('/:batchId', asyncHandler(async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+    const batch = findOwnedBatch(req);
+
+    if (!batch) {
+        return res.status(404).json({
+            success: false,
+            message: 'Batch not found or has expired',
+        });
+    }
+
+    return res.status(200).json({
+        success: true,
+        data: batchService.getProgress(batch),
+    });
+}));
+
+function sendArchive(
+    res: Response,
+    fileIds: string[],
+    originalNames: Map<string, string>,
+    filename: string,
+    findJob?: (fileId: string) => FileJob | undefined
+): void {
+    const archive = archiveService.createArchive(fileIds, originalNames, findJob);
+
+    // Headers are gone once streaming started, so a failure can only cut the download short
+    archive.on('error', (error: Error) => {
+        logger.error('Archive streaming failed', {
+            filename,
+            error: error.message,
+        });
+        res.destroy(error);
+    });
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('X-Frame-Options', 'DENY');
+
+    archive.pipe(res);
+    archive.finalize();
+}
+
+export { router as batchRouter };
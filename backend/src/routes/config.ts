@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { config } from '../config';
+import { ALLOWED_TYPES, REFERENCE_PHOTO_TYPES } from './upload';
+
+const router = Router();
+
+// Limits the frontend checks before sending anything, so it does not keep its own copies
+router.get('/', (req, res) => {
+    res.status(200).json({
+        success: true,
+        data: {
+            maxFileSize: config.maxFileSize,
+            maxResumableUploadSize: config.maxResumableUploadSize,
+            maxBatchFiles: config.maxBatchFiles,
+            maxReferencePhotos: config.maxReferencePhotos,
+            maxArchiveFiles: config.maxArchiveFiles,
+            fileExpiryMs: config.fileExpiryMs,
+            allowedTypes: ALLOWED_TYPES,
+            referencePhotoTypes: REFERENCE_PHOTO_TYPES,
+        },
+    });
+});
+
+export { router as configRouter };
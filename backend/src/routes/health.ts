@@ -1,5 +1,7 @@
 import { Router } from 'express';
+import { config } from '../config';
 import { cleanupService } from '../services/cleanup';
+import { jobQueue } from '../services/jobQueue';
 import { logger } from '../utils/logger';
 
 const router = Router();
@@ -17,7 +19,7 @@ router.get('/', (req, res) => {
             human: `${Math.floor(uptime / 3600)}h ${Math.floor((uptime % 3600) / 60)}m ${Math.floor(uptime % 60)}s`,
         },
         version: process.env.npm_package_version || '1.0.0',
-        environment: process.env.NODE_ENV || 'development',
+        environment: config.nodeEnv,
         memory: {
             used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
             total: Math.round(process.memoryUsage().heapTotal / 1024 / 1024),
@@ -28,6 +30,7 @@ router.get('/', (req, res) => {
             completed: cleanupService.getAllJobs().filter(job => job.status === 'completed').length,
             failed: cleanupService.getAllJobs().filter(job => job.status === 'failed').length,
         },
+        queue: jobQueue.getStats(),
     };
 
     res.status(200).json({
@@ -55,6 +58,7 @@ router.get('/detailed', (req, res) => {
             details: jobs.map(job => ({
                 id: job.id,
                 status: job.status,
+                statusChangedAt: job.statusHistory[job.statusHistory.length - 1]?.at,
                 createdAt: job.createdAt,
                 expiresAt: job.expiresAt,
                 timeRemaining: Math.max(0, job.expiresAt.getTime() - new Date().getTime()),
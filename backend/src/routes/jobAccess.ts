@@ -0,0 +1,36 @@
+import { Request } from 'express';
+import { Batch, batchService } from '../services/batches';
+import { cleanupService, FileJob } from '../services/cleanup';
+import { verifyJobToken } from '../services/jobTokens';
+import { resumableUploadService, UploadSession } from '../services/resumableUploads';
+
+// API calls send the token in this header. Links and media elements can't set
+// headers, so a `token` query parameter is accepted as well.
+export const ACCESS_TOKEN_HEADER = 'x-job-token';
+
+export function readAccessToken(req: Request): string | undefined {
+    const header = req.get(ACCESS_TOKEN_HEADER);
+    if (header) {
+        return header;
+    }
+
+    return typeof req.query.token === 'string' ? req.query.token : undefined;
+}
+
+// The job, but only for whoever holds its token. A wrong token must look
+// exactly like a missing job, so callers answer both with the same 404.
+export function findOwnedJob(req: Request, fileId: string = req.params.fileId): FileJob | undefined {
+    const job = cleanupService.getJob(fileId);
+    return job && verifyJobToken(job, readAccessToken(req)) ? job : undefined;
+}
+
+export function findOwnedBatch(req: Request, batchId: string = req.params.batchId): Batch | undefined {
+    const batch = batchService.getBatch(batchId);
+    return batch && verifyJobToken(batch, readAccessToken(req)) ? batch : undefined;
+}
+
+// Resumable uploads get a token of their own when the session is created
+export function findOwnedSession(req: Request, uploadId: string = req.params.uploadId): UploadSession | undefined {
+    const session = resumableUploadService.getSession(uploadId);
+    return session && verifyJobToken(session, readAccessToken(req)) ? session : undefined;
+}
@@ -0,0 +1,146 @@
+import { FileJob } from '../services/cleanup';
+import { FaceDetectionOptions } from '../services/faceDetection';
+import { JOB_PRIORITIES, JobPriority } from '../services/jobQueue';
+import { validateSamplingOptions } from '../services/frameSampler';
+import { validateSceneDetectionOptions } from '../services/sceneDetector';
+import { VideoProcessingOptions, OBSCURE_STYLES, PENGUIN_STICKERS } from '../services/videoProcessing';
+
+// Validate detection mode, frame sampling, scene detection, identity grouping
+// and reference photo settings. All of the job's reference photos apply unless
+// referencePhotoIds picks some of them.
+export function parseDetectionOptions(
+    body: any,
+    job: FileJob
+): { detectionOptions?: FaceDetectionOptions; error?: string } {
+    const referencePhotos = job.referencePhotos || [];
+    const {
+        detectionMode = 'auto',
+        sampling = {},
+        sceneDetection = {},
+        identitySimilarity,
+        referenceSimilarity,
+        referencePhotoIds,
+        keepReferenceMatches = false,
+    } = body;
+    const modes = ['auto', 'conservative', 'aggressive', 'manual'];
+
+    if (!modes.includes(detectionMode)) {
+        return { error: `detectionMode must be one of: ${modes.join(', ')}` };
+    }
+
+    const samplingError = typeof sampling === 'object' && sampling !== null
+        ? validateSamplingOptions(sampling)
+        : 'sampling must be an object';
+
+    if (samplingError) {
+        return { error: samplingError };
+    }
+
+    const sceneDetectionError = typeof sceneDetection === 'object' && sceneDetection !== null
+        ? validateSceneDetectionOptions(sceneDetection)
+        : 'sceneDetection must be an object';
+
+    if (sceneDetectionError) {
+        return { error: sceneDetectionError };
+    }
+
+    if (identitySimilarity !== undefined
+        && (typeof identitySimilarity !== 'number' || identitySimilarity <= 0 || identitySimilarity > 1)) {
+        return { error: 'identitySimilarity must be a number between 0 and 1' };
+    }
+
+    if (referenceSimilarity !== undefined
+        && (typeof referenceSimilarity !== 'number' || referenceSimilarity <= 0 || referenceSimilarity > 1)) {
+        return { error: 'referenceSimilarity must be a number between 0 and 1' };
+    }
+
+    if (referencePhotoIds !== undefined
+        && (!Array.isArray(referencePhotoIds) || referencePhotoIds.some(id => typeof id !== 'string'))) {
+        return { error: 'referencePhotoIds must be an array of reference photo ids' };
+    }
+
+    if (typeof keepReferenceMatches !== 'boolean') {
+        return { error: 'keepReferenceMatches must be a boolean' };
+    }
+
+    const unknownReferenceId = (referencePhotoIds || []).find(
+        (id: string) => !referencePhotos.some(photo => photo.id === id)
+    );
+
+    if (unknownReferenceId) {
+        return { error: `Unknown reference photo id: ${unknownReferenceId}` };
+    }
+
+    return {
+        detectionOptions: {
+            mode: detectionMode,
+            mediaType: job.mediaType,
+            sampling,
+            sceneDetection,
+            identitySimilarity,
+            referencePhotos: referencePhotoIds
+                ? referencePhotos.filter(photo => referencePhotoIds.includes(photo.id))
+                : referencePhotos,
+            referenceSimilarity,
+            keepReferenceMatches,
+        },
+    };
+}
+
+// Validate blur intensity and obscure style settings from a process request
+export function parseRenderOptions(body: any): { renderOptions?: VideoProcessingOptions; error?: string } {
+    const {
+        blurIntensity = 'medium',
+        obscureStyle = 'gaussian',
+        obscureOptions = {},
+    } = body;
+
+    if (!['low', 'medium', 'high'].includes(blurIntensity)) {
+        return { error: 'blurIntensity must be one of: low, medium, high' };
+    }
+
+    if (!OBSCURE_STYLES.includes(obscureStyle)) {
+        return { error: `obscureStyle must be one of: ${OBSCURE_STYLES.join(', ')}` };
+    }
+
+    if (typeof obscureOptions !== 'object' || obscureOptions === null) {
+        return { error: 'obscureOptions must be an object' };
+    }
+
+    const renderOptions: VideoProcessingOptions = { blurIntensity, obscureStyle };
+    const { color, pixelSize, sticker } = obscureOptions;
+
+    if (obscureStyle === 'solid' && color !== undefined) {
+        if (typeof color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+            return { error: 'obscureOptions.color must be a hex color like #000000' };
+        }
+        renderOptions.color = color;
+    }
+
+    if (obscureStyle === 'pixelate' && pixelSize !== undefined) {
+        if (!Number.isInteger(pixelSize) || pixelSize < 2 || pixelSize > 128) {
+            return { error: 'obscureOptions.pixelSize must be an integer between 2 and 128' };
+        }
+        renderOptions.pixelSize = pixelSize;
+    }
+
+    if (obscureStyle === 'mask' && sticker !== undefined) {
+        if (!Object.keys(PENGUIN_STICKERS).includes(sticker)) {
+            return { error: `obscureOptions.sticker must be one of: ${Object.keys(PENGUIN_STICKERS).join(', ')}` };
+        }
+        renderOptions.sticker = sticker;
+    }
+
+    return { renderOptions };
+}
+
+// Queue priority of a process, detect or render request
+export function parsePriority(body: any): { priority?: JobPriority; error?: string } {
+    const { priority = 'normal' } = body;
+
+    if (!JOB_PRIORITIES.includes(priority)) {
+        return { error: `priority must be one of: ${JOB_PRIORITIES.join(', ')}` };
+    }
+
+    return { priority };
+}
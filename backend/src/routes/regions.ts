@@ -0,0 +1,110 @@
+import { Router, Request, Response } from 'express';
+import { manualRegionService } from '../services/manualRegions';
+import { asyncHandler } from '../middleware/errorHandler';
+import { findOwnedJob } from './jobAccess';
+
+const router = Router();
+
+// List the manual redaction regions of a file
+router.get('/:fileId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId } = req.params;
+
+    if (!findOwnedJob(req)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    return res.status(200).json({
+        success: true,
+        data: {
+            fileId,
+            regions: manualRegionService.getRegions(fileId),
+        },
+    });
+}));
+
+// Add a region; it is rendered together with the detected faces
+router.post('/:fileId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId } = req.params;
+
+    if (!findOwnedJob(req)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    const { region, error } = manualRegionService.createRegion(fileId, req.body);
+
+    if (!region) {
+        return res.status(400).json({
+            success: false,
+            message: error,
+        });
+    }
+
+    return res.status(201).json({
+        success: true,
+        data: region,
+    });
+}));
+
+// Change some or all fields of a region
+router.put('/:fileId/:regionId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId, regionId } = req.params;
+
+    if (!findOwnedJob(req)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    const { region, error } = manualRegionService.updateRegion(fileId, regionId, req.body);
+
+    if (error) {
+        return res.status(400).json({
+            success: false,
+            message: error,
+        });
+    }
+
+    if (!region) {
+        return res.status(404).json({
+            success: false,
+            message: 'Region not found',
+        });
+    }
+
+    return res.status(200).json({
+        success: true,
+        data: region,
+    });
+}));
+
+router.delete('/:fileId/:regionId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId, regionId } = req.params;
+
+    if (!findOwnedJob(req)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    if (!manualRegionService.deleteRegion(fileId, regionId)) {
+        return res.status(404).json({
+            success: false,
+            message: 'Region not found',
+        });
+    }
+
+    return res.status(200).json({
+        success: true,
+        message: 'Region deleted',
+    });
+}));
+
+export { router as regionsRouter };
@@ -1,25 +1,53 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { join } from 'path';
-import { existsSync, mkdirSync } from 'fs';
+import { dirname, extname, join } from 'path';
+import { copyFileSync, existsSync, mkdirSync, rmSync, unlinkSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { cleanupService } from '../services/cleanup';
+import { batchService } from '../services/batches';
+import { cleanupService, FileJob } from '../services/cleanup';
+import type { ReferencePhoto } from '../services/faceEmbedding';
+import { imageProcessingService } from '../services/imageProcessing';
+import { jobFileService } from '../services/jobFiles';
+import { describeHistory } from '../services/jobLifecycle';
+import { createJobToken } from '../services/jobTokens';
+import { resumableUploadService, UploadSession } from '../services/resumableUploads';
+import { config } from '../config';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
+import { findOwnedJob, findOwnedSession } from './jobAccess';
 
 const router = Router();
 
+// Reference photos of people who must stay unblurred, sent alongside the video
+export const REFERENCE_PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/bmp'];
+
+// Accept video files and images
+export const ALLOWED_TYPES = [
+    'video/mp4',
+    'video/avi',
+    'video/mov',
+    'video/quicktime', // what browsers report for .mov
+    'video/wmv',
+    'video/flv',
+    'video/webm',
+    'image/jpeg',
+    'image/png',
+    'image/bmp',
+];
+
+// Fields of an uploaded file that turning it into a job needs, whether it
+// came in one multipart request or in chunks
+type UploadedMedia = Pick<Express.Multer.File, 'path' | 'originalname' | 'mimetype' | 'size'>;
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
     destination: (req, file, cb) => {
-        const tempDir = join(require('os').tmpdir(), 'penguinblur');
-
         // Ensure temp directory exists
-        if (!existsSync(tempDir)) {
-            mkdirSync(tempDir, { recursive: true });
+        if (!existsSync(config.tempDir)) {
+            mkdirSync(config.tempDir, { recursive: true });
         }
 
-        cb(null, tempDir);
+        cb(null, config.tempDir);
     },
     filename: (req, file, cb) => {
         const uniqueSuffix = uuidv4();
@@ -29,20 +57,9 @@ const storage = multer.diskStorage({
 });
 
 const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-    // Accept video files and images
-    const allowedTypes = [
-        'video/mp4',
-        'video/avi',
-        'video/mov',
-        'video/wmv',
-        'video/flv',
-        'video/webm',
-        'image/jpeg',
-        'image/png',
-        'image/bmp',
-    ];
-
-    if (allowedTypes.includes(file.mimetype)) {
+    if (file.fieldname === 'references' && !REFERENCE_PHOTO_TYPES.includes(file.mimetype)) {
+        cb(new Error('Reference photos must be JPEG, PNG or BMP images'));
+    } else if (ALLOWED_TYPES.includes(file.mimetype)) {
         cb(null, true);
     } else {
         cb(new Error(`File type ${file.mimetype} is not allowed`), false);
@@ -53,60 +70,323 @@ const upload = multer({
     storage,
     fileFilter,
     limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB limit
-        files: 1, // Only one file at a time
+        fileSize: config.maxFileSize,
+        files: 1 + config.maxReferencePhotos, // One video plus its reference photos
+    },
+});
+
+const uploadFields = upload.fields([
+    { name: 'video', maxCount: 1 },
+    { name: 'references', maxCount: config.maxReferencePhotos },
+]);
+
+const batchUpload = multer({
+    storage,
+    fileFilter,
+    limits: {
+        fileSize: config.maxFileSize,
+        files: config.maxBatchFiles + config.maxReferencePhotos,
     },
 });
 
+const batchUploadFields = batchUpload.fields([
+    { name: 'files', maxCount: config.maxBatchFiles },
+    { name: 'references', maxCount: config.maxReferencePhotos },
+]);
+
+// Reference photos sent when a resumable upload is finalized
+const referenceFields = upload.fields([
+    { name: 'references', maxCount: config.maxReferencePhotos },
+]);
+
 // Upload endpoint
-router.post('/', upload.single('video'), asyncHandler(async (req: Request, res: Response) => {
-    if (!req.file) {
+router.post('/', uploadFields, asyncHandler(async (req: Request, res: Response) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const video = files?.video?.[0];
+    const references = files?.references || [];
+
+    if (!video) {
+        // References are useless without a video to match them against
+        references.forEach(reference => unlinkSync(reference.path));
+
         return res.status(400).json({
             success: false,
             message: 'No file uploaded',
         });
     }
 
-    const fileId = uuidv4();
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + 15 * 60 * 1000); // 15 minutes from now
+    const { job, accessToken, error } = await createJob(video, toReferencePhotos(references));
 
-    // Add file to cleanup service
-    cleanupService.addJob({
-        id: fileId,
-        filePath: req.file.path,
-        createdAt: now,
-        expiresAt,
-        status: 'processing',
+    if (!job || !accessToken) {
+        references.forEach(reference => unlinkSync(reference.path));
+
+        return res.status(400).json({
+            success: false,
+            message: error,
+        });
+    }
+
+    res.status(200).json({
+        success: true,
+        data: describeUpload(job, video, accessToken),
     });
+}));
 
-    logger.info('File uploaded successfully', {
-        fileId,
-        originalName: req.file.originalname,
-        size: req.file.size,
-        mimetype: req.file.mimetype,
-        path: req.file.path,
+// Batch upload: many files sharing one set of reference photos. Each file
+// becomes its own job and the batch groups them for processing
+router.post('/batch', batchUploadFields, asyncHandler(async (req: Request, res: Response) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const uploads = files?.files || [];
+    const references = files?.references || [];
+
+    if (uploads.length === 0) {
+        references.forEach(reference => unlinkSync(reference.path));
+
+        return res.status(400).json({
+            success: false,
+            message: 'No files uploaded',
+        });
+    }
+
+    const jobs: { job: FileJob; file: Express.Multer.File; accessToken: string }[] = [];
+    const rejected: { originalName: string; message: string }[] = [];
+
+    // One file at a time, since rotating images runs FFmpeg
+    for (const file of uploads) {
+        // Every job deletes its reference photos with it, so each gets its own copies
+        const referencePhotos = copyReferencePhotos(references);
+        const { job, accessToken, error } = await createJob(file, referencePhotos);
+
+        if (job && accessToken) {
+            jobs.push({ job, file, accessToken });
+        } else {
+            referencePhotos.forEach(photo => unlinkSync(photo.path));
+            rejected.push({ originalName: file.originalname, message: error || 'Upload failed' });
+        }
+    }
+
+    references.forEach(reference => unlinkSync(reference.path));
+
+    if (jobs.length === 0) {
+        return res.status(400).json({
+            success: false,
+            message: 'None of the files could be read',
+            data: { rejected },
+        });
+    }
+
+    const { token: batchToken, tokenHash } = createJobToken();
+    const batch = batchService.createBatch(
+        jobs.map(({ job, file }) => ({ fileId: job.id, originalName: file.originalname })),
+        config.fileExpiryMs,
+        tokenHash
+    );
+
+    logger.info('Batch uploaded successfully', {
+        batchId: batch.id,
+        files: jobs.length,
+        rejected: rejected.length,
+        referencePhotos: references.length,
     });
 
-    res.status(200).json({
+    return res.status(200).json({
+        success: true,
+        data: {
+            batchId: batch.id,
+            accessToken: batchToken,
+            files: jobs.map(({ job, file, accessToken }) => describeUpload(job, file, accessToken)),
+            rejected,
+        },
+    });
+}));
+
+// Start a resumable upload; the body announces the file that will follow in chunks
+router.post('/sessions', asyncHandler(async (req: Request, res: Response) => {
+    const { filename, mimetype, size } = req.body;
+
+    if (typeof filename !== 'string' || filename.length === 0 || filename.length > 255) {
+        return res.status(400).json({
+            success: false,
+            message: 'filename must be a non-empty string of at most 255 characters',
+        });
+    }
+
+    if (!ALLOWED_TYPES.includes(mimetype)) {
+        return res.status(400).json({
+            success: false,
+            message: `File type ${mimetype} is not allowed`,
+        });
+    }
+
+    if (!Number.isInteger(size) || size <= 0) {
+        return res.status(400).json({
+            success: false,
+            message: 'size must be the file size in bytes',
+        });
+    }
+
+    if (size > config.maxResumableUploadSize) {
+        return res.status(413).json({
+            success: false,
+            message: `File size too large. Maximum file size is ${Math.round(config.maxResumableUploadSize / 1024 / 1024)}MB.`,
+        });
+    }
+
+    const { token, tokenHash } = createJobToken();
+    const session = resumableUploadService.createSession(
+        config.tempDir,
+        filename,
+        mimetype,
+        size,
+        config.fileExpiryMs,
+        tokenHash
+    );
+
+    return res.status(201).json({
         success: true,
         data: {
-            fileId,
-            originalName: req.file.originalname,
-            size: req.file.size,
-            mimetype: req.file.mimetype,
-            uploadedAt: now.toISOString(),
-            expiresAt: expiresAt.toISOString(),
-            downloadUrl: `/api/video/download/${fileId}`,
+            ...describeSession(session),
+            accessToken: token, // required by every other session route
         },
     });
 }));
 
+// Where to resume: the number of bytes the server has
+router.get('/sessions/:uploadId', asyncHandler(async (req: Request, res: Response) => {
+    const session = findOwnedSession(req);
+
+    if (!session) {
+        return res.status(404).json({
+            success: false,
+            message: 'Upload not found or has expired',
+        });
+    }
+
+    res.setHeader('Upload-Offset', session.offset);
+    return res.status(200).json({
+        success: true,
+        data: describeSession(session),
+    });
+}));
+
+// Append a chunk. The raw request body holds the bytes and the Upload-Offset
+// header must match the server's offset, so a retried chunk is never doubled
+router.patch('/sessions/:uploadId', asyncHandler(async (req: Request, res: Response) => {
+    const session = findOwnedSession(req);
+
+    if (!session) {
+        return res.status(404).json({
+            success: false,
+            message: 'Upload not found or has expired',
+        });
+    }
+
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+        return res.status(415).json({
+            success: false,
+            message: 'Chunks must be sent as application/offset+octet-stream',
+        });
+    }
+
+    const offset = Number(req.headers['upload-offset']);
+
+    if (session.isWriting || offset !== session.offset) {
+        res.setHeader('Upload-Offset', session.offset);
+        return res.status(409).json({
+            success: false,
+            message: session.isWriting
+                ? 'Another chunk is still being received'
+                : `Upload-Offset must be ${session.offset}`,
+            data: describeSession(session),
+        });
+    }
+
+    const length = Number(req.headers['content-length']);
+
+    if (length > session.size - session.offset) {
+        return res.status(413).json({
+            success: false,
+            message: 'Chunk goes past the announced upload size',
+        });
+    }
+
+    // A client whose connection dropped never reads this; it asks for the offset when it is back
+    const { offset: newOffset, error } = await resumableUploadService.appendChunk(session, req, config.fileExpiryMs);
+
+    res.setHeader('Upload-Offset', newOffset);
+    return res.status(error ? 400 : 200).json({
+        success: !error,
+        ...(error && { message: error }),
+        data: describeSession(session),
+    });
+}));
+
+// Turn a complete upload into a job; reference photos may come along as multipart
+router.post('/sessions/:uploadId/finalize', referenceFields, asyncHandler(async (req: Request, res: Response) => {
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const references = files?.references || [];
+    const session = findOwnedSession(req);
+
+    if (!session || session.isWriting || session.offset < session.size) {
+        references.forEach(reference => unlinkSync(reference.path));
+
+        return res.status(session ? 409 : 404).json({
+            success: false,
+            message: session ? 'Upload is not complete yet' : 'Upload not found or has expired',
+            ...(session && { data: describeSession(session) }),
+        });
+    }
+
+    // The name comes from the client, so only a plain extension is kept
+    const ext = extname(session.originalName).toLowerCase().replace(/[^a-z0-9]/g, '');
+    const media: UploadedMedia = {
+        path: join(config.tempDir, ext ? `${uuidv4()}.${ext}` : uuidv4()),
+        originalname: session.originalName,
+        mimetype: session.mimetype,
+        size: session.size,
+    };
+
+    resumableUploadService.completeSession(session, media.path);
+
+    const { job, accessToken, error } = await createJob(media, toReferencePhotos(references));
+
+    if (!job || !accessToken) {
+        references.forEach(reference => unlinkSync(reference.path));
+
+        return res.status(400).json({
+            success: false,
+            message: error,
+        });
+    }
+
+    return res.status(200).json({
+        success: true,
+        data: describeUpload(job, media, accessToken),
+    });
+}));
+
+// Abandon a resumable upload and delete what was received
+router.delete('/sessions/:uploadId', asyncHandler(async (req: Request, res: Response) => {
+    if (!findOwnedSession(req)) {
+        return res.status(404).json({
+            success: false,
+            message: 'Upload not found or has expired',
+        });
+    }
+
+    resumableUploadService.removeSession(req.params.uploadId);
+
+    return res.status(200).json({
+        success: true,
+        message: 'Upload cancelled',
+    });
+}));
+
 // Check upload status
 router.get('/status/:fileId', asyncHandler(async (req: Request, res: Response) => {
     const { fileId } = req.params;
 
-    const job = cleanupService.getJob(fileId);
+    const job = findOwnedJob(req);
 
     if (!job) {
         return res.status(404).json({
@@ -122,6 +402,7 @@ router.get('/status/:fileId', asyncHandler(async (req: Request, res: Response) =
         data: {
             fileId: job.id,
             status: job.status,
+            ...describeHistory(job.statusHistory),
             createdAt: job.createdAt.toISOString(),
             expiresAt: job.expiresAt.toISOString(),
             timeRemaining,
@@ -134,7 +415,7 @@ router.get('/status/:fileId', asyncHandler(async (req: Request, res: Response) =
 router.delete('/:fileId', asyncHandler(async (req: Request, res: Response) => {
     const { fileId } = req.params;
 
-    const job = cleanupService.getJob(fileId);
+    const job = findOwnedJob(req);
 
     if (!job) {
         return res.status(404).json({
@@ -157,4 +438,114 @@ router.delete('/:fileId', asyncHandler(async (req: Request, res: Response) => {
     });
 }));
 
+// Turns an uploaded file into a job, moving it into the job's own folder.
+// Still images are rotated upright here so detection and rendering agree with
+// what the viewer sees. The upload is deleted when it can't be read, the
+// reference photos are left to the caller until the job takes them over.
+// The access token is only ever returned here, the job keeps its hash.
+async function createJob(
+    file: UploadedMedia,
+    referencePhotos: ReferencePhoto[]
+): Promise<{ job?: FileJob; accessToken?: string; error?: string }> {
+    const imageFormat = imageProcessingService.getImageFormat(file.mimetype);
+    const jobId = uuidv4();
+
+    jobFileService.createJobDir(jobId);
+    let filePath = jobFileService.adopt(jobId, file.path, `original${extname(file.path)}`);
+
+    if (imageFormat) {
+        try {
+            filePath = await imageProcessingService.normalizeOrientation(filePath, imageFormat);
+        } catch (error) {
+            logger.error('Failed to read uploaded image', {
+                path: filePath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+            rmSync(jobFileService.getJobDir(jobId), { recursive: true, force: true });
+
+            return { error: 'The image could not be read' };
+        }
+    }
+
+    const now = new Date();
+    const { token, tokenHash } = createJobToken();
+    const job: FileJob = {
+        id: jobId,
+        filePath,
+        originalName: file.originalname,
+        mediaType: imageFormat ? 'image' : 'video',
+        imageFormat,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + config.fileExpiryMs),
+        status: 'uploaded',
+        statusHistory: [{ from: null, to: 'uploaded', at: now }],
+        accessTokenHash: tokenHash,
+        referencePhotos: referencePhotos.map(photo => ({
+            ...photo,
+            path: jobFileService.adopt(jobId, photo.path, `${photo.id}${extname(photo.path)}`),
+        })),
+    };
+
+    // Add file to cleanup service
+    cleanupService.addJob(job);
+
+    logger.info('File uploaded successfully', {
+        fileId: job.id,
+        originalName: file.originalname,
+        size: file.size,
+        mimetype: file.mimetype,
+        path: filePath,
+        referencePhotos: referencePhotos.length,
+    });
+
+    return { job, accessToken: token };
+}
+
+function describeUpload(job: FileJob, file: UploadedMedia, accessToken: string) {
+    return {
+        fileId: job.id,
+        accessToken,
+        originalName: file.originalname,
+        size: file.size,
+        mimetype: file.mimetype,
+        mediaType: job.mediaType,
+        uploadedAt: job.createdAt.toISOString(),
+        expiresAt: job.expiresAt.toISOString(),
+        downloadUrl: `/api/video/download/${job.id}`,
+        referencePhotos: (job.referencePhotos || []).map(({ id, originalName }) => ({ id, originalName })),
+    };
+}
+
+function describeSession(session: UploadSession) {
+    return {
+        uploadId: session.id,
+        originalName: session.originalName,
+        size: session.size,
+        offset: session.offset,
+        maxSize: config.maxResumableUploadSize,
+        expiresAt: session.expiresAt.toISOString(),
+    };
+}
+
+function toReferencePhotos(references: Express.Multer.File[]): ReferencePhoto[] {
+    return references.map((reference, index) => ({
+        id: `reference-${index}`,
+        path: reference.path,
+        originalName: reference.originalname,
+    }));
+}
+
+function copyReferencePhotos(references: Express.Multer.File[]): ReferencePhoto[] {
+    return references.map((reference, index) => {
+        const path = join(dirname(reference.path), `${uuidv4()}${extname(reference.path)}`);
+        copyFileSync(reference.path, path);
+
+        return {
+            id: `reference-${index}`,
+            path,
+            originalName: reference.originalname,
+        };
+    });
+}
+
 export { router as uploadRouter };
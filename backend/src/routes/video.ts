@@ -1,21 +1,24 @@
 import { Router, Request, Response } from 'express';
 import { join } from 'path';
 import { existsSync, createReadStream } from 'fs';
+import { config } from '../config';
 import { cleanupService } from '../services/cleanup';
-import { faceDetectionService } from '../services/faceDetection';
-import { videoProcessingService } from '../services/videoProcessing';
+import { IMAGE_CONTENT_TYPES } from '../services/imageProcessing';
+import { canStartPhase, canTransition, describeHistory, describeInvalidTransition } from '../services/jobLifecycle';
+import { jobPipeline } from '../services/jobPipeline';
+import { jobQueue, JobPriority } from '../services/jobQueue';
+import { thumbnailService } from '../services/thumbnails';
 import { logger } from '../utils/logger';
 import { asyncHandler } from '../middleware/errorHandler';
-import { wss } from '../server';
+import { findOwnedJob } from './jobAccess';
+import { parseDetectionOptions, parsePriority, parseRenderOptions } from './processingOptions';
 
 const router = Router();
 
-// Process video for face detection and blurring
+// Process video for face detection and blurring in one go, without review
 router.post('/process/:fileId', asyncHandler(async (req: Request, res: Response) => {
     const { fileId } = req.params;
-    const { blurIntensity = 'medium', detectionMode = 'auto' } = req.body;
-
-    const job = cleanupService.getJob(fileId);
+    const job = findOwnedJob(req);
 
     if (!job) {
         return res.status(404).json({
@@ -24,40 +27,56 @@ router.post('/process/:fileId', asyncHandler(async (req: Request, res: Response)
         });
     }
 
-    if (job.status === 'processing') {
+    const { renderOptions, error: validationError } = parseRenderOptions(req.body);
+
+    if (!renderOptions) {
+        return res.status(400).json({
+            success: false,
+            message: validationError,
+        });
+    }
+
+    const { detectionOptions, error: detectionError } = parseDetectionOptions(req.body, job);
+
+    if (!detectionOptions) {
+        return res.status(400).json({
+            success: false,
+            message: detectionError,
+        });
+    }
+
+    const { priority, error: priorityError } = parsePriority(req.body);
+
+    if (!priority) {
         return res.status(400).json({
             success: false,
-            message: 'File is already being processed',
+            message: priorityError,
         });
     }
 
-    // Update job status to processing
-    cleanupService.updateJobStatus(fileId, 'processing');
+    if (!canStartPhase(job.status, 'processing')) {
+        return res.status(409).json({
+            success: false,
+            message: describeInvalidTransition(job.status, 'processing'),
+        });
+    }
 
     try {
         logger.info('Starting video processing', {
             fileId,
-            blurIntensity,
-            detectionMode,
+            renderOptions,
+            detectionOptions,
+            priority,
             inputPath: job.filePath,
         });
 
-        // Start processing in background
-        processVideoAsync(fileId, job.filePath, blurIntensity, detectionMode);
-
-        res.status(200).json({
-            success: true,
-            message: 'Video processing started',
-            data: {
-                fileId,
-                status: 'processing',
-                estimatedTime: '2-5 minutes depending on video length',
-            },
-        });
+        return startJob(res, fileId, priority, 'Video processing', () =>
+            jobPipeline.processJob(fileId, job.filePath, renderOptions, detectionOptions)
+        );
     } catch (error) {
         logger.error('Failed to start video processing', {
             fileId,
-            error: error.message,
+            error: error instanceof Error ? error.message : String(error),
         });
 
         cleanupService.updateJobStatus(fileId, 'failed');
@@ -69,11 +88,251 @@ router.post('/process/:fileId', asyncHandler(async (req: Request, res: Response)
     }
 }));
 
-// Download processed video
+// Detect faces and keep the tracks on the job so they can be reviewed before rendering
+router.post('/detect/:fileId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId } = req.params;
+    const job = findOwnedJob(req);
+
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    const { detectionOptions, error: detectionError } = parseDetectionOptions(req.body, job);
+
+    if (!detectionOptions) {
+        return res.status(400).json({
+            success: false,
+            message: detectionError,
+        });
+    }
+
+    const { priority, error: priorityError } = parsePriority(req.body);
+
+    if (!priority) {
+        return res.status(400).json({
+            success: false,
+            message: priorityError,
+        });
+    }
+
+    if (!canStartPhase(job.status, 'detecting')) {
+        return res.status(409).json({
+            success: false,
+            message: describeInvalidTransition(job.status, 'detecting'),
+        });
+    }
+
+    logger.info('Starting face detection for review', {
+        fileId,
+        detectionOptions,
+        priority,
+        inputPath: job.filePath,
+    });
+
+    return startJob(res, fileId, priority, 'Face detection', () =>
+        jobPipeline.detectJob(fileId, job.filePath, detectionOptions)
+    );
+}));
+
+// Detected face tracks of a file, available once detection has finished
+router.get('/detections/:fileId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId } = req.params;
+
+    const job = findOwnedJob(req);
+
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    if (!job.detection) {
+        return res.status(400).json({
+            success: false,
+            message: job.status === 'detecting' ? 'Face detection is still running' : 'Face detection has not been run',
+        });
+    }
+
+    return res.status(200).json({
+        success: true,
+        data: {
+            fileId,
+            status: job.status,
+            fps: job.detection.fps,
+            duration: job.detection.duration,
+            analyzedFrames: job.detection.analyzedFrames,
+            detectedAt: job.detection.detectedAt.toISOString(),
+            // Embeddings are only needed on the server
+            tracks: job.detection.tracks.map(({ embedding, ...track }) => track),
+            identities: job.detection.identities,
+            sceneCuts: job.detection.sceneCuts,
+            referencePhotos: (job.referencePhotos || []).map(({ id, originalName }) => ({ id, originalName })),
+            excludedTrackIds: job.excludedTrackIds || [],
+        },
+    });
+}));
+
+// Render the reviewed detections; tracks in excludedTrackIds, and every track
+// of a person in excludedIdentityIds, are left unblurred
+router.post('/render/:fileId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId } = req.params;
+    const { excludedTrackIds = [], excludedIdentityIds = [] } = req.body;
+
+    const job = findOwnedJob(req);
+
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    const { renderOptions, error: validationError } = parseRenderOptions(req.body);
+
+    if (!renderOptions) {
+        return res.status(400).json({
+            success: false,
+            message: validationError,
+        });
+    }
+
+    const { priority, error: priorityError } = parsePriority(req.body);
+
+    if (!priority) {
+        return res.status(400).json({
+            success: false,
+            message: priorityError,
+        });
+    }
+
+    if (!job.detection) {
+        return res.status(400).json({
+            success: false,
+            message: 'Run face detection before rendering',
+        });
+    }
+
+    if (!canStartPhase(job.status, 'rendering')) {
+        return res.status(409).json({
+            success: false,
+            message: describeInvalidTransition(job.status, 'rendering'),
+        });
+    }
+
+    if (!Array.isArray(excludedTrackIds) || excludedTrackIds.some(id => typeof id !== 'string')) {
+        return res.status(400).json({
+            success: false,
+            message: 'excludedTrackIds must be an array of track ids',
+        });
+    }
+
+    const trackIds = new Set(job.detection.tracks.map(track => track.id));
+    const unknownTrackId = excludedTrackIds.find((id: string) => !trackIds.has(id));
+
+    if (unknownTrackId) {
+        return res.status(400).json({
+            success: false,
+            message: `Unknown track id: ${unknownTrackId}`,
+        });
+    }
+
+    if (!Array.isArray(excludedIdentityIds) || excludedIdentityIds.some(id => typeof id !== 'string')) {
+        return res.status(400).json({
+            success: false,
+            message: 'excludedIdentityIds must be an array of identity ids',
+        });
+    }
+
+    const identities = new Map(job.detection.identities.map(identity => [identity.id, identity]));
+    const unknownIdentityId = excludedIdentityIds.find((id: string) => !identities.has(id));
+
+    if (unknownIdentityId) {
+        return res.status(400).json({
+            success: false,
+            message: `Unknown identity id: ${unknownIdentityId}`,
+        });
+    }
+
+    const excluded = new Set<string>([
+        ...excludedTrackIds,
+        ...excludedIdentityIds.flatMap((id: string) => identities.get(id)?.trackIds || []),
+    ]);
+    const tracks = job.detection.tracks.filter(track => !excluded.has(track.id));
+
+    cleanupService.updateJob(fileId, { excludedTrackIds: [...excluded] });
+
+    logger.info('Starting render of reviewed detections', {
+        fileId,
+        renderOptions,
+        priority,
+        tracks: tracks.length,
+        excludedTracks: excluded.size,
+    });
+
+    return startJob(res, fileId, priority, 'Video rendering', () =>
+        jobPipeline.renderJob(fileId, job.filePath, tracks, renderOptions)
+    );
+}));
+
+// Cropped face of one detected track, for the review gallery
+router.get('/thumbnails/:fileId/:trackId', asyncHandler(async (req: Request, res: Response) => {
+    const { fileId, trackId } = req.params;
+
+    const job = findOwnedJob(req);
+
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    const trackExists = job.detection?.tracks.some(track => track.id === trackId);
+    const thumbnailPath = thumbnailService.getThumbnailPath(fileId, trackId);
+
+    if (!trackExists || !existsSync(thumbnailPath)) {
+        return res.status(404).json({
+            success: false,
+            message: 'Thumbnail not found',
+        });
+    }
+
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.setHeader('Cache-Control', 'no-store');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    return createReadStream(thumbnailPath).pipe(res);
+}));
+
+// The unredacted upload, for previewing it next to the result. Served with
+// range support so the player can seek
+router.get('/original/:fileId', asyncHandler(async (req: Request, res: Response) => {
+    const job = findOwnedJob(req);
+
+    if (!job || !existsSync(job.filePath)) {
+        return res.status(404).json({
+            success: false,
+            message: 'File not found or has expired',
+        });
+    }
+
+    return res.sendFile(job.filePath, {
+        headers: {
+            'Cache-Control': 'no-store',
+            'X-Content-Type-Options': 'nosniff',
+        },
+    });
+}));
+
+// Download the processed video or image
 router.get('/download/:fileId', asyncHandler(async (req: Request, res: Response) => {
     const { fileId } = req.params;
 
-    const job = cleanupService.getJob(fileId);
+    const job = findOwnedJob(req);
 
     if (!job) {
         return res.status(404).json({
@@ -96,9 +355,13 @@ router.get('/download/:fileId', asyncHandler(async (req: Request, res: Response)
         });
     }
 
+    // Images come back in the format they were uploaded in
+    const extension = job.imageFormat || 'mp4';
+    const contentType = job.imageFormat ? IMAGE_CONTENT_TYPES[job.imageFormat] : 'video/mp4';
+
     // Set headers for file download
-    res.setHeader('Content-Type', 'video/mp4');
-    res.setHeader('Content-Disposition', `attachment; filename="penguinblur-${fileId}.mp4"`);
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="penguinblur-${fileId}.${extension}"`);
     res.setHeader('X-Content-Type-Options', 'nosniff');
     res.setHeader('X-Frame-Options', 'DENY');
 
@@ -116,7 +379,7 @@ router.get('/download/:fileId', asyncHandler(async (req: Request, res: Response)
 router.get('/status/:fileId', asyncHandler(async (req: Request, res: Response) => {
     const { fileId } = req.params;
 
-    const job = cleanupService.getJob(fileId);
+    const job = findOwnedJob(req);
 
     if (!job) {
         return res.status(404).json({
@@ -132,11 +395,13 @@ router.get('/status/:fileId', asyncHandler(async (req: Request, res: Response) =
         data: {
             fileId: job.id,
             status: job.status,
+            ...describeHistory(job.statusHistory),
             createdAt: job.createdAt.toISOString(),
             expiresAt: job.expiresAt.toISOString(),
             timeRemaining,
             downloadUrl: job.outputPath ? `/api/video/download/${fileId}` : null,
-            progress: job.status === 'processing' ? getProcessingProgress(fileId) : 100,
+            progress: jobPipeline.getStatusProgress(fileId, job.status),
+            queuePosition: jobQueue.getPosition(fileId),
         },
     });
 }));
@@ -145,7 +410,7 @@ router.get('/status/:fileId', asyncHandler(async (req: Request, res: Response) =
 router.post('/cancel/:fileId', asyncHandler(async (req: Request, res: Response) => {
     const { fileId } = req.params;
 
-    const job = cleanupService.getJob(fileId);
+    const job = findOwnedJob(req);
 
     if (!job) {
         return res.status(404).json({
@@ -154,16 +419,14 @@ router.post('/cancel/:fileId', asyncHandler(async (req: Request, res: Response)
         });
     }
 
-    if (job.status !== 'processing') {
-        return res.status(400).json({
+    if (!canTransition(job.status, 'cancelled')) {
+        return res.status(409).json({
             success: false,
             message: 'File is not currently being processed',
         });
     }
 
-    // Cancel processing and update status
-    cancelProcessing(fileId);
-    cleanupService.updateJobStatus(fileId, 'failed');
+    jobPipeline.cancel(fileId);
 
     logger.info('Processing cancelled by user', {
         fileId,
@@ -172,103 +435,56 @@ router.post('/cancel/:fileId', asyncHandler(async (req: Request, res: Response)
     res.status(200).json({
         success: true,
         message: 'Processing cancelled',
+        data: {
+            fileId,
+            status: 'cancelled',
+        },
     });
 }));
 
-// Async processing function
-async function processVideoAsync(
+// Queues a pipeline phase and answers with where the job stands. A full queue
+// is reported as 503 so clients know to retry later
+function startJob(
+    res: Response,
     fileId: string,
-    inputPath: string,
-    blurIntensity: string,
-    detectionMode: string
-): Promise<void> {
-    try {
-        // Update progress
-        broadcastProgress(fileId, 0, 'Starting face detection...');
-
-        // Detect faces in video
-        const faces = await faceDetectionService.detectFaces(inputPath, detectionMode);
-
-        broadcastProgress(fileId, 30, `Found ${faces.length} faces. Starting video processing...`);
-
-        // Process video with face blurring
-        const outputPath = await videoProcessingService.processVideo(
-            inputPath,
-            faces,
-            blurIntensity,
-            (progress) => {
-                const totalProgress = 30 + (progress * 0.7); // 70% of processing time
-                broadcastProgress(fileId, Math.round(totalProgress), `Processing video... ${progress}%`);
-            }
-        );
-
-        // Update job with completed status
-        cleanupService.updateJobStatus(fileId, 'completed', outputPath);
+    priority: JobPriority,
+    phase: string,
+    run: () => Promise<void>
+): Response {
+    const { position, finished, error } = jobQueue.enqueue(fileId, priority, run);
 
-        broadcastProgress(fileId, 100, 'Processing completed!');
+    if (!finished) {
+        logger.warn('Processing queue is full', { fileId, ...jobQueue.getStats() });
 
-        logger.info('Video processing completed successfully', {
-            fileId,
-            outputPath,
-            facesDetected: faces.length,
-        });
-    } catch (error) {
-        logger.error('Video processing failed', {
-            fileId,
-            error: error.message,
-            stack: error.stack,
+        return res.status(503).json({
+            success: false,
+            message: error,
         });
-
-        cleanupService.updateJobStatus(fileId, 'failed');
-        broadcastProgress(fileId, 0, `Processing failed: ${error.message}`);
     }
-}
-
-// Progress tracking
-const processingProgress = new Map<string, number>();
 
-function getProcessingProgress(fileId: string): number {
-    return processingProgress.get(fileId) || 0;
-}
+    // A job that found a free worker has already moved on to its phase's status
+    if (position) {
+        cleanupService.updateJobStatus(fileId, 'queued');
+    }
 
-function broadcastProgress(fileId: string, progress: number, message: string): void {
-    processingProgress.set(fileId, progress);
+    // The upload's expiry would otherwise run out while the job waits or runs,
+    // and the result gets the full download window once the phase is done
+    extendExpiry(fileId);
+    finished.then(() => extendExpiry(fileId));
 
-    const update = JSON.stringify({
-        type: 'processingProgress',
+    return res.status(200).json({
+        success: true,
+        message: position ? `${phase} queued at position ${position}` : `${phase} started`,
         data: {
             fileId,
-            progress,
-            message,
-            timestamp: new Date().toISOString(),
+            status: cleanupService.getJob(fileId)?.status,
+            queuePosition: position ?? null,
         },
     });
-
-    wss.clients.forEach((client) => {
-        if (client.readyState === client.OPEN) {
-            client.send(update);
-        }
-    });
 }
 
-function cancelProcessing(fileId: string): void {
-    // This would integrate with the actual video processing service
-    // For now, just remove from progress tracking
-    processingProgress.delete(fileId);
-
-    const update = JSON.stringify({
-        type: 'processingCancelled',
-        data: {
-            fileId,
-            timestamp: new Date().toISOString(),
-        },
-    });
-
-    wss.clients.forEach((client) => {
-        if (client.readyState === client.OPEN) {
-            client.send(update);
-        }
-    });
+function extendExpiry(fileId: string): void {
+    cleanupService.updateJob(fileId, { expiresAt: new Date(Date.now() + config.fileExpiryMs) });
 }
 
 export { router as videoRouter };
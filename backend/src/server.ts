@@ -5,12 +5,17 @@ import compression from 'compression';
 import { createServer } from 'http';
 import { WebSocketServer } from 'ws';
 import path from 'path';
-import os from 'os';
 
+import { config } from './config';
 import { uploadRouter } from './routes/upload';
 import { videoRouter } from './routes/video';
+import { batchRouter } from './routes/batch';
+import { regionsRouter } from './routes/regions';
 import { healthRouter } from './routes/health';
+import { configRouter } from './routes/config';
+import { batchService } from './services/batches';
 import { cleanupService } from './services/cleanup';
+import { realtimeService } from './services/realtime';
 import { errorHandler } from './middleware/errorHandler';
 import { logger } from './utils/logger';
 
@@ -18,12 +23,6 @@ const app = express();
 const server = createServer(app);
 const wss = new WebSocketServer({ server });
 
-// Configuration
-const PORT = process.env.PORT || 3001;
-const NODE_ENV = process.env.NODE_ENV || 'development';
-const FILE_CLEANUP_INTERVAL = parseInt(process.env.FILE_CLEANUP_INTERVAL || '5') * 60 * 1000; // 5 minutes
-const FILE_EXPIRY_TIME = parseInt(process.env.FILE_EXPIRY_TIME || '15') * 60 * 1000; // 15 minutes
-
 // Middleware
 app.use(helmet({
     contentSecurityPolicy: {
@@ -38,13 +37,13 @@ app.use(helmet({
 }));
 
 app.use(cors({
-    origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+    origin: config.frontendUrl,
     credentials: true,
 }));
 
 app.use(compression());
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: true, limit: '50mb' }));
+app.use(express.json({ limit: config.maxRequestBodySize }));
+app.use(express.urlencoded({ extended: true, limit: config.maxRequestBodySize }));
 
 // Request logging
 app.use((req, res, next) => {
@@ -55,50 +54,27 @@ app.use((req, res, next) => {
     next();
 });
 
-// Static files for uploads (temporary)
-app.use('/temp', express.static(path.join(os.tmpdir(), 'penguinblur'), {
-    maxAge: 0, // No caching for temporary files
-    setHeaders: (res, filePath) => {
-        // Set security headers for file downloads
-        res.setHeader('X-Content-Type-Options', 'nosniff');
-        res.setHeader('X-Frame-Options', 'DENY');
-    },
-}));
+// Uploads and outputs are never served statically; the job routes hand them
+// out to whoever holds the job's access token
 
 // Routes
 app.use('/api/upload', uploadRouter);
 app.use('/api/video', videoRouter);
+app.use('/api/batch', batchRouter);
+app.use('/api/regions', regionsRouter);
 app.use('/api/health', healthRouter);
+app.use('/api/config', configRouter);
 
 // Serve frontend in production
-if (NODE_ENV === 'production') {
+if (config.isProduction) {
     app.use(express.static(path.join(__dirname, '../../frontend/build')));
     app.get('*', (req, res) => {
         res.sendFile(path.join(__dirname, '../../frontend/build/index.html'));
     });
 }
 
-// WebSocket connection for real-time progress updates
-wss.on('connection', (ws) => {
-    logger.info('New WebSocket connection established');
-
-    ws.on('message', (message) => {
-        try {
-            const data = JSON.parse(message.toString());
-            logger.info('WebSocket message received', { data });
-        } catch (error) {
-            logger.error('Invalid WebSocket message', { error });
-        }
-    });
-
-    ws.on('close', () => {
-        logger.info('WebSocket connection closed');
-    });
-
-    ws.on('error', (error) => {
-        logger.error('WebSocket error', { error });
-    });
-});
+// WebSocket clients subscribe to their own jobs for real-time progress updates
+realtimeService.attach(wss);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -112,16 +88,17 @@ app.use('*', (req, res) => {
     });
 });
 
-// Start cleanup service
-cleanupService.start(FILE_CLEANUP_INTERVAL, FILE_EXPIRY_TIME);
+// Start cleanup service and pick up the batches of the previous run
+cleanupService.start(config.cleanupIntervalMs, config.fileExpiryMs);
+batchService.restore();
 
 // Start server
-server.listen(PORT, () => {
+server.listen(config.port, () => {
     logger.info(`🐧 PenguinBlur Server started successfully!`, {
-        port: PORT,
-        environment: NODE_ENV,
-        fileCleanupInterval: `${FILE_CLEANUP_INTERVAL / 1000 / 60} minutes`,
-        fileExpiryTime: `${FILE_EXPIRY_TIME / 1000 / 60} minutes`,
+        port: config.port,
+        environment: config.nodeEnv,
+        fileCleanupInterval: `${config.cleanupIntervalMs / 1000 / 60} minutes`,
+        fileExpiryTime: `${config.fileExpiryMs / 1000 / 60} minutes`,
     });
 });
 
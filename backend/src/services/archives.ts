@@ -0,0 +1,96 @@
+import { existsSync } from 'fs';
+import { parse } from 'path';
+import archiver, { Archiver } from 'archiver';
+import { logger } from '../utils/logger';
+import { cleanupService, FileJob } from './cleanup';
+
+export const MANIFEST_NAME = 'manifest.json';
+
+// One requested job in the archive's manifest. Jobs without an output are
+// listed with the reason instead of being left out
+export interface ArchiveManifestEntry {
+    fileId: string;
+    originalName: string | null;
+    status: FileJob['status'];
+    outputName: string | null; // path inside the archive
+    reason?: string;
+}
+
+export interface ArchiveManifest {
+    createdAt: string;
+    included: number;
+    files: ArchiveManifestEntry[];
+}
+
+class ArchiveService {
+    // Zips the outputs of the given jobs plus a manifest. The archive is
+    // finalized as it is piped, so nothing is buffered on disk. Outputs are
+    // already compressed video or images, so entries are stored as is. A job
+    // that findJob doesn't return is listed as expired.
+    createArchive(
+        fileIds: string[],
+        originalNames: Map<string, string> = new Map(),
+        findJob: (fileId: string) => FileJob | undefined = fileId => cleanupService.getJob(fileId)
+    ): Archiver {
+        const archive = archiver('zip', { store: true });
+        const usedNames = new Set<string>([MANIFEST_NAME]);
+        const files: ArchiveManifestEntry[] = [];
+
+        for (const fileId of fileIds) {
+            const job = findJob(fileId);
+            const originalName = job?.originalName || originalNames.get(fileId) || null;
+            const entry: ArchiveManifestEntry = {
+                fileId,
+                originalName,
+                status: job ? job.status : 'expired',
+                outputName: null,
+            };
+
+            if (!job) {
+                entry.reason = 'File not found or has expired';
+            } else if (job.status !== 'completed' || !job.outputPath) {
+                entry.reason = job.status === 'failed'
+                    ? 'Processing failed'
+                    : job.status === 'cancelled' ? 'Processing was cancelled' : 'Not processed yet';
+            } else if (!existsSync(job.outputPath)) {
+                entry.reason = 'Processed file not found';
+            } else {
+                entry.outputName = this.getOutputName(job, usedNames);
+                archive.file(job.outputPath, { name: entry.outputName });
+            }
+
+            files.push(entry);
+        }
+
+        const manifest: ArchiveManifest = {
+            createdAt: new Date().toISOString(),
+            included: files.filter(file => file.outputName).length,
+            files,
+        };
+
+        archive.append(JSON.stringify(manifest, null, 2), { name: MANIFEST_NAME });
+
+        logger.info('Archive created', {
+            files: fileIds.length,
+            included: manifest.included,
+        });
+
+        return archive;
+    }
+
+    // "clip.mov" becomes "clip-blurred.mp4"; clashing names get a counter
+    private getOutputName(job: FileJob, usedNames: Set<string>): string {
+        const extension = job.imageFormat || 'mp4';
+        const base = `${parse(job.originalName).name || job.id}-blurred`;
+        let name = `${base}.${extension}`;
+
+        for (let counter = 2; usedNames.has(name); counter++) {
+            name = `${base}-${counter}.${extension}`;
+        }
+
+        usedNames.add(name);
+        return name;
+    }
+}
+
+export const archiveService = new ArchiveService();
@@ -0,0 +1,283 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { cleanupService, FileJob } from './cleanup';
+import type { FaceDetectionOptions } from './faceDetection';
+import { canStartPhase } from './jobLifecycle';
+import { jobPipeline } from './jobPipeline';
+import { jobQueue, JobPriority } from './jobQueue';
+import { BatchRepository, createBatchRepository } from './jobRepository';
+import type { VideoProcessingOptions } from './videoProcessing';
+
+// A group of files uploaded together and processed with one settings profile
+export interface Batch {
+    id: string;
+    fileIds: string[];
+    originalNames: Record<string, string>; // by file id, still known once the job expired
+    accessTokenHash: string; // sha256 of the batch token, each file also has its own
+    createdAt: Date;
+    fileLifetimeMs: number; // how long a file is kept after upload, or after its turn in the batch
+    settings?: BatchSettings;
+    startedAt?: Date;
+    finishedAt?: Date;
+    currentFileId?: string;
+}
+
+// Validated options the batch was last started with. The reference photos and
+// media type of each file's detection options belong to its job and are left out
+export interface BatchSettings {
+    renderOptions: VideoProcessingOptions;
+    detectionOptions: Omit<FaceDetectionOptions, 'mediaType' | 'referencePhotos'>;
+    priority: JobPriority;
+}
+
+export type BatchFileStatus = FileJob['status']; // 'expired' once the job is gone
+
+export interface BatchFileProgress {
+    fileId: string;
+    originalName: string;
+    status: BatchFileStatus;
+    progress: number; // 0-100
+    downloadUrl: string | null;
+}
+
+export interface BatchProgress {
+    batchId: string;
+    status: 'uploaded' | 'processing' | 'completed';
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    settings: BatchSettings | null;
+    progress: number; // 0-100, averaged over the files
+    counts: Record<string, number>;
+    files: BatchFileProgress[];
+}
+
+class BatchService {
+    private batches: Map<string, Batch> = new Map();
+
+    constructor(private repository: BatchRepository) {}
+
+    // Picks up the batches of the previous run. A batch that was running has
+    // stopped with the process; its files were marked interrupted, so it is
+    // finished and can be started again
+    restore(): void {
+        for (const batch of this.repository.loadAll()) {
+            if (this.isRunning(batch)) {
+                batch.finishedAt = new Date();
+                batch.currentFileId = undefined;
+                this.repository.save(batch);
+            }
+
+            this.batches.set(batch.id, batch);
+        }
+
+        logger.info('Batches restored', { batches: this.batches.size });
+    }
+
+    createBatch(
+        files: { fileId: string; originalName: string }[],
+        fileLifetimeMs: number,
+        accessTokenHash: string
+    ): Batch {
+        const batch: Batch = {
+            id: uuidv4(),
+            fileIds: files.map(file => file.fileId),
+            originalNames: Object.fromEntries(files.map(file => [file.fileId, file.originalName])),
+            accessTokenHash,
+            createdAt: new Date(),
+            fileLifetimeMs,
+        };
+
+        this.batches.set(batch.id, batch);
+        this.repository.save(batch);
+
+        logger.info('Batch created', {
+            batchId: batch.id,
+            files: batch.fileIds.length,
+        });
+
+        return batch;
+    }
+
+    // Batches are dropped once every one of their files has expired
+    getBatch(batchId: string): Batch | undefined {
+        const batch = this.batches.get(batchId);
+
+        if (batch && batch.fileIds.every(fileId => !cleanupService.getJob(fileId))) {
+            this.batches.delete(batchId);
+            this.repository.remove(batchId);
+            return undefined;
+        }
+
+        return batch;
+    }
+
+    // Queues the files one after the other, so a batch holds at most one place
+    // in the job queue and single uploads are not stuck behind it. Options are
+    // validated per file by the caller; files that expired or were deleted
+    // meanwhile are skipped.
+    async processBatch(
+        batch: Batch,
+        renderOptions: VideoProcessingOptions,
+        detectionOptions: Map<string, FaceDetectionOptions>,
+        priority: JobPriority
+    ): Promise<void> {
+        const [{ mediaType, referencePhotos, ...sharedOptions } = {}] = detectionOptions.values();
+
+        batch.settings = { renderOptions, detectionOptions: sharedOptions, priority };
+        batch.startedAt = new Date();
+        batch.finishedAt = undefined;
+        this.repository.save(batch);
+
+        logger.info('Batch processing started', {
+            batchId: batch.id,
+            files: batch.fileIds.length,
+        });
+
+        for (const [index, fileId] of batch.fileIds.entries()) {
+            const job = cleanupService.getJob(fileId);
+            const options = detectionOptions.get(fileId);
+
+            if (!job || !options) {
+                continue;
+            }
+
+            // Started on its own in the meantime; queueing it again would run it twice
+            if (!canStartPhase(job.status, 'processing')) {
+                logger.warn('Batch file skipped, it is already being processed', {
+                    batchId: batch.id,
+                    fileId,
+                    status: job.status,
+                });
+                continue;
+            }
+
+            // Files still waiting would otherwise expire before their turn comes
+            this.extendExpiry(batch, batch.fileIds.slice(index));
+
+            batch.currentFileId = fileId;
+            this.repository.save(batch);
+
+            const { position, finished, error } = jobQueue.enqueue(fileId, priority, () =>
+                jobPipeline.processJob(fileId, job.filePath, renderOptions, options)
+            );
+
+            if (!finished) {
+                logger.warn('Batch file could not be queued', {
+                    batchId: batch.id,
+                    fileId,
+                    error,
+                });
+                cleanupService.updateJobStatus(fileId, 'failed');
+                continue;
+            }
+
+            if (position) {
+                cleanupService.updateJobStatus(fileId, 'queued');
+            }
+
+            await finished;
+
+            // Give every file the full download window after it finishes
+            this.extendExpiry(batch, [fileId]);
+        }
+
+        batch.currentFileId = undefined;
+        batch.finishedAt = new Date();
+        this.repository.save(batch);
+
+        logger.info('Batch processing finished', {
+            batchId: batch.id,
+            files: batch.fileIds.length,
+        });
+    }
+
+    getProgress(batch: Batch): BatchProgress {
+        const currentIndex = batch.currentFileId ? batch.fileIds.indexOf(batch.currentFileId) : -1;
+
+        const files = batch.fileIds.map((fileId, index): BatchFileProgress => {
+            const job = cleanupService.getJob(fileId);
+            const status = this.getFileStatus(batch, job, index, currentIndex);
+
+            return {
+                fileId,
+                originalName: batch.originalNames[fileId] || fileId,
+                status,
+                progress: jobPipeline.getStatusProgress(fileId, status),
+                downloadUrl: job?.outputPath ? `/api/video/download/${fileId}` : null,
+            };
+        });
+
+        const counts: Record<string, number> = {};
+        files.forEach(file => {
+            counts[file.status] = (counts[file.status] || 0) + 1;
+        });
+
+        const progress = files.length > 0
+            ? Math.round(files.reduce((sum, file) => sum + file.progress, 0) / files.length)
+            : 100;
+
+        return {
+            batchId: batch.id,
+            status: batch.finishedAt ? 'completed' : batch.startedAt ? 'processing' : 'uploaded',
+            createdAt: batch.createdAt.toISOString(),
+            startedAt: batch.startedAt?.toISOString() || null,
+            finishedAt: batch.finishedAt?.toISOString() || null,
+            settings: batch.settings || null,
+            progress,
+            counts,
+            files,
+        };
+    }
+
+    getOriginalNames(batch: Batch): Map<string, string> {
+        const names = new Map<string, string>();
+
+        for (const fileId of batch.fileIds) {
+            const name = batch.originalNames[fileId];
+            if (name) {
+                names.set(fileId, name);
+            }
+        }
+
+        return names;
+    }
+
+    isRunning(batch: Batch): boolean {
+        return Boolean(batch.startedAt && !batch.finishedAt);
+    }
+
+    // Files keep the status of an earlier run until their turn comes, so the
+    // batch's own position decides whether a file has started
+    private getFileStatus(
+        batch: Batch,
+        job: FileJob | undefined,
+        index: number,
+        currentIndex: number
+    ): BatchFileStatus {
+        if (!job) {
+            return 'expired';
+        }
+
+        if (!batch.startedAt) {
+            return 'uploaded';
+        }
+
+        if (this.isRunning(batch) && index > currentIndex) {
+            return 'queued';
+        }
+
+        return job.status;
+    }
+
+    private extendExpiry(batch: Batch, fileIds: string[]): void {
+        const expiresAt = new Date(Date.now() + batch.fileLifetimeMs);
+
+        for (const fileId of fileIds) {
+            cleanupService.updateJob(fileId, { expiresAt });
+        }
+    }
+}
+
+export const batchService = new BatchService(createBatchRepository(config.jobStore, config.jobJournalPath));
@@ -1,28 +1,64 @@
-import { existsSync, unlinkSync, readdirSync, statSync } from 'fs';
+import { existsSync, unlinkSync, readdirSync, statSync, rmSync } from 'fs';
 import { join } from 'path';
+import { config } from '../config';
 import { logger } from '../utils/logger';
-import { wss } from '../server';
+import type { FaceTrack } from './faceDetection';
+import type { FaceIdentity, ReferencePhoto } from './faceEmbedding';
+import type { ManualRegion } from './manualRegions';
+import type { SceneCut } from './sceneDetector';
+import type { ImageFormat, MediaType } from './imageProcessing';
+import { ACTIVE_STATUSES, canTransition, JobStatus, JobTransition } from './jobLifecycle';
+import { jobAbortService } from './jobAborts';
+import { jobFileService } from './jobFiles';
+import { createJobRepository, JobRepository } from './jobRepository';
+import { realtimeService } from './realtime';
+import { jobQueue } from './jobQueue';
 
-interface FileJob {
+// Result of the detection phase, kept until the job is rendered or expires
+export interface JobDetection {
+    tracks: FaceTrack[];
+    identities: FaceIdentity[];
+    sceneCuts: SceneCut[];
+    analyzedFrames: number;
+    fps: number;
+    duration: number; // ms
+    detectedAt: Date;
+}
+
+export interface FileJob {
     id: string;
     filePath: string;
+    originalName: string; // name of the uploaded file
+    mediaType: MediaType;
+    imageFormat?: ImageFormat; // set for still images, the output keeps this format
     outputPath?: string;
     createdAt: Date;
     expiresAt: Date;
-    status: 'processing' | 'completed' | 'failed';
+    status: JobStatus; // only changed through updateJobStatus, which enforces the allowed transitions
+    statusHistory: JobTransition[]; // oldest first, starting with the upload
+    accessTokenHash: string; // sha256 of the token handed to the uploader
+    manualRegions?: ManualRegion[];
+    detection?: JobDetection;
+    excludedTrackIds?: string[]; // detected tracks the reviewer chose to leave unblurred
+    thumbnailDir?: string; // track thumbnails, deleted with the job
+    referencePhotos?: ReferencePhoto[]; // people who must stay unblurred
 }
 
 class CleanupService {
     private cleanupInterval: NodeJS.Timeout | null = null;
     private activeJobs: Map<string, FileJob> = new Map();
 
+    constructor(private repository: JobRepository) {}
+
     start(intervalMs: number, expiryTimeMs: number): void {
         logger.info('Starting cleanup service', {
             interval: `${intervalMs / 1000 / 60} minutes`,
             expiryTime: `${expiryTimeMs / 1000 / 60} minutes`,
         });
 
-        // Run cleanup immediately on start
+        this.restoreJobs();
+
+        // Run cleanup immediately on start, which also drops restored jobs that expired while down
         this.cleanup(expiryTimeMs);
 
         // Schedule regular cleanup
@@ -41,6 +77,7 @@ class CleanupService {
 
     addJob(job: FileJob): void {
         this.activeJobs.set(job.id, job);
+        this.repository.save(job);
         logger.info('File job added', {
             jobId: job.id,
             filePath: job.filePath,
@@ -48,18 +85,23 @@ class CleanupService {
             expiresAt: job.expiresAt,
         });
 
-        // Notify WebSocket clients about new job
+        // Nobody can be subscribed yet, the uploader only now gets the token
         this.broadcastJobUpdate(job);
     }
 
-    updateJobStatus(jobId: string, status: FileJob['status'], outputPath?: string): void {
+    // Moves the job to a new state. An illegal transition, such as a render
+    // finishing after the job was cancelled, is rejected and returns false
+    updateJobStatus(jobId: string, status: JobStatus, outputPath?: string): boolean {
         const job = this.activeJobs.get(jobId);
         if (job) {
-            job.status = status;
+            if (!this.recordTransition(job, status)) {
+                return false;
+            }
             if (outputPath) {
                 job.outputPath = outputPath;
             }
             this.activeJobs.set(jobId, job);
+            this.repository.save(job);
 
             logger.info('File job status updated', {
                 jobId,
@@ -69,27 +111,47 @@ class CleanupService {
 
             // Notify WebSocket clients
             this.broadcastJobUpdate(job);
+            return true;
+        }
+        return false;
+    }
+
+    // Changes job data other than its status; clients are not notified
+    updateJob(
+        jobId: string,
+        changes: Partial<Omit<FileJob, 'id' | 'status' | 'statusHistory'>>
+    ): FileJob | undefined {
+        const job = this.activeJobs.get(jobId);
+        if (job) {
+            Object.assign(job, changes);
+            this.repository.save(job);
         }
+        return job;
     }
 
     removeJob(jobId: string): void {
         const job = this.activeJobs.get(jobId);
         if (job) {
-            // Delete associated files
-            this.deleteFileIfExists(job.filePath);
-            if (job.outputPath) {
-                this.deleteFileIfExists(job.outputPath);
-            }
+            // A job still waiting for a worker would otherwise run on deleted
+            // files, and a running phase would keep writing into its folder
+            jobQueue.remove(jobId);
+            jobAbortService.abort(jobId);
+            this.recordTransition(job, 'expired');
+
+            // Delete associated files, all of which live in the job's folder
+            this.deleteDirectoryIfExists(jobFileService.getJobDir(jobId));
 
             this.activeJobs.delete(jobId);
+            this.repository.remove(jobId);
             logger.info('File job removed and files deleted', {
                 jobId,
                 filePath: job.filePath,
                 outputPath: job.outputPath,
             });
 
-            // Notify WebSocket clients
-            this.broadcastJobUpdate({ ...job, status: 'expired' });
+            // Tell the subscribers the job expired, then forget them
+            this.broadcastJobUpdate(job);
+            realtimeService.dropJob(jobId);
         }
     }
 
@@ -101,13 +163,59 @@ class CleanupService {
         return Array.from(this.activeJobs.values());
     }
 
+    // Picks up the jobs of the previous run. Jobs whose upload is gone can't be
+    // used again, and jobs that were running are marked so they can be retried
+    private restoreJobs(): void {
+        let interrupted = 0;
+
+        for (const job of this.repository.loadAll()) {
+            if (!existsSync(job.filePath)) {
+                this.repository.remove(job.id);
+                logger.warn('Restored job dropped, its upload is missing', {
+                    jobId: job.id,
+                    filePath: job.filePath,
+                });
+                continue;
+            }
+
+            if (ACTIVE_STATUSES.includes(job.status)) {
+                this.recordTransition(job, 'interrupted');
+                this.repository.save(job);
+                interrupted++;
+            }
+
+            this.activeJobs.set(job.id, job);
+        }
+
+        logger.info('Jobs restored', {
+            jobs: this.activeJobs.size,
+            interrupted,
+        });
+    }
+
+    private recordTransition(job: FileJob, status: JobStatus): boolean {
+        if (!canTransition(job.status, status)) {
+            logger.warn('Illegal job status transition rejected', {
+                jobId: job.id,
+                from: job.status,
+                to: status,
+            });
+            return false;
+        }
+
+        job.statusHistory.push({ from: job.status, to: status, at: new Date() });
+        job.status = status;
+        return true;
+    }
+
     private cleanup(expiryTimeMs: number): void {
         const now = new Date();
         const expiredJobs: string[] = [];
 
-        // Find expired jobs
+        // Find expired jobs. Queued and running jobs are left alone, removing
+        // their files would fail the phase; they expire once it is done
         for (const [jobId, job] of this.activeJobs.entries()) {
-            if (now > job.expiresAt) {
+            if (now > job.expiresAt && !ACTIVE_STATUSES.includes(job.status)) {
                 expiredJobs.push(jobId);
             }
         }
@@ -128,26 +236,45 @@ class CleanupService {
         }
     }
 
+    // Leftovers in tempDir, such as uploads that never became a job, and the
+    // folders of jobs that are gone. Folders of live jobs are left alone even
+    // when old, since a batch can keep its files past the usual expiry
     private cleanupTempFiles(expiryTimeMs: number): void {
-        try {
-            const tempDir = require('os').tmpdir();
-            const penguinblurDir = join(tempDir, 'penguinblur');
+        const jobsRoot = jobFileService.getJobsRoot();
+
+        this.deleteOldEntries(config.tempDir, expiryTimeMs, filePath => filePath === jobsRoot);
+        this.deleteOldEntries(jobsRoot, expiryTimeMs, (filePath, name) => this.activeJobs.has(name));
+    }
 
-            if (!existsSync(penguinblurDir)) {
+    private deleteOldEntries(
+        dirPath: string,
+        expiryTimeMs: number,
+        keep: (filePath: string, name: string) => boolean
+    ): void {
+        try {
+            if (!existsSync(dirPath)) {
                 return;
             }
 
-            const files = readdirSync(penguinblurDir);
+            const files = readdirSync(dirPath);
             const now = new Date();
 
             for (const file of files) {
-                const filePath = join(penguinblurDir, file);
+                const filePath = join(dirPath, file);
+                if (keep(filePath, file)) {
+                    continue;
+                }
+
                 const stats = statSync(filePath);
 
-                // Remove files older than expiry time
+                // Remove files and job folders older than expiry time
                 if (now.getTime() - stats.mtime.getTime() > expiryTimeMs) {
                     try {
-                        unlinkSync(filePath);
+                        if (stats.isDirectory()) {
+                            rmSync(filePath, { recursive: true, force: true });
+                        } else {
+                            unlinkSync(filePath);
+                        }
                         logger.debug('Orphaned temp file deleted', { filePath });
                     } catch (error) {
                         logger.error('Failed to delete orphaned temp file', {
@@ -162,35 +289,32 @@ class CleanupService {
         }
     }
 
-    private deleteFileIfExists(filePath: string): void {
+    private deleteDirectoryIfExists(dirPath: string): void {
         try {
-            if (existsSync(filePath)) {
-                unlinkSync(filePath);
-                logger.debug('File deleted', { filePath });
+            if (existsSync(dirPath)) {
+                rmSync(dirPath, { recursive: true, force: true });
+                logger.debug('Directory deleted', { dirPath });
             }
         } catch (error) {
-            logger.error('Failed to delete file', { filePath, error });
+            logger.error('Failed to delete directory', { dirPath, error });
         }
     }
 
     private broadcastJobUpdate(job: FileJob): void {
-        const message = JSON.stringify({
+        const transition = job.statusHistory[job.statusHistory.length - 1];
+        realtimeService.publish(job.id, {
             type: 'jobUpdate',
             job: {
                 id: job.id,
                 status: job.status,
+                previousStatus: transition?.from ?? null,
+                statusChangedAt: transition?.at,
                 createdAt: job.createdAt,
                 expiresAt: job.expiresAt,
                 timeRemaining: Math.max(0, job.expiresAt.getTime() - new Date().getTime()),
             },
         });
-
-        wss.clients.forEach((client) => {
-            if (client.readyState === client.OPEN) {
-                client.send(message);
-            }
-        });
     }
 }
 
-export const cleanupService = new CleanupService();
+export const cleanupService = new CleanupService(createJobRepository(config.jobStore, config.jobJournalPath));
@@ -1,6 +1,26 @@
 import { join } from 'path';
 import { existsSync, unlinkSync } from 'fs';
+import type { CascadeClassifier, Mat } from 'opencv4nodejs';
 import { logger } from '../utils/logger';
+import {
+    FrameSampler,
+    FrameSamplingOptions,
+    AnalyzedFrame,
+    probeKeyframeIndices,
+} from './frameSampler';
+import {
+    computeFaceEmbedding,
+    averageEmbeddings,
+    clusterTracksIntoIdentities,
+    cosineSimilarity,
+    FaceIdentity,
+    ReferencePhoto,
+    DEFAULT_IDENTITY_SIMILARITY,
+    DEFAULT_REFERENCE_SIMILARITY,
+} from './faceEmbedding';
+import { SceneCutDetector, SceneCut, SceneDetectionOptions } from './sceneDetector';
+import type { MediaType } from './imageProcessing';
+import type { RegionShape } from './manualRegions';
 
 export interface DetectedFace {
     id: string;
@@ -10,27 +30,132 @@ export interface DetectedFace {
     height: number;
     confidence: number;
     timestamp: number;
+    embedding?: number[]; // appearance descriptor used to recognise the person again
+}
+
+export interface BlurRegion {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    confidence: number;
+    timestamp: number;
 }
 
 export interface FaceDetectionOptions {
     mode?: 'auto' | 'manual' | 'conservative' | 'aggressive';
+    mediaType?: MediaType; // video unless set
     confidence?: number;
-    maxFaces?: number;
     eyeDistance?: number;
+    sampling?: FrameSamplingOptions;
+    sceneDetection?: SceneDetectionOptions;
+    identitySimilarity?: number; // 0-1, how alike two tracks must look to be one person
+    referencePhotos?: ReferencePhoto[]; // people who must stay unblurred
+    referenceSimilarity?: number; // 0-1, how alike a track must look to a reference photo
+    keepReferenceMatches?: boolean; // one-shot processing leaves reference matches unblurred
 }
 
-class FaceDetectionService {
-    private cv: any; // OpenCV instance
+// Box of a face track at one point in time; boxes in between are interpolated
+export interface TrackKeyframe {
+    timestamp: number; // ms
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    confidence: number;
+}
 
-    constructor() {
-        // Initialize OpenCV (placeholder - would require actual opencv4nodejs)
-        this.cv = null;
-    }
+export interface FaceTrack {
+    id: string;
+    startTime: number; // ms
+    endTime: number; // ms, the face is held at its last box until then
+    keyframes: TrackKeyframe[];
+    confidence: number; // mean over keyframes
+    shape?: RegionShape; // rectangle unless set
+    source?: 'detected' | 'manual';
+    embedding?: number[]; // mean appearance over the track's keyframes
+    identityId?: string; // tracks of the same person share an identity
+    referenceId?: string; // reference photo the person was matched to
+}
+
+export interface FaceDetectionResult {
+    faces: DetectedFace[];
+    tracks: FaceTrack[];
+    identities: FaceIdentity[];
+    // Frames the detector actually ran on; faces are unknown in between
+    analyzedFrames: AnalyzedFrame[];
+    sceneCuts: SceneCut[]; // no track spans a cut
+    fps: number;
+    framesDecoded: number;
+}
+
+// Used when the container does not report a frame rate
+const DEFAULT_FPS = 30;
+
+// Frames are downscaled to this width before running the cascade, and faces
+// smaller than this share of the shorter side are ignored as noise
+const MAX_DETECTION_WIDTH = 960;
+const MIN_FACE_RATIO = 0.03;
 
+// A photo is analyzed once, so it can afford more pixels and smaller faces to
+// find people in the back rows of a group shot
+const MAX_IMAGE_DETECTION_WIDTH = 2048;
+const MIN_IMAGE_FACE_RATIO = 0.01;
+
+// Minimum overlap between a track's predicted box and a detection to link them
+const TRACK_IOU_THRESHOLD = 0.25;
+
+// A track ends after this many analyzed frames without a matching detection
+const TRACK_MAX_MISSED_FRAMES = 3;
+
+// How long a track is held before its first and after its last analyzed
+// frame when there is no analyzed frame on that side
+const TRACK_HOLD_MS = 1000;
+
+// Frame size used to find scene cuts and to measure motion for adaptive sampling
+const DIFF_THUMBNAIL_WIDTH = 64;
+const DIFF_THUMBNAIL_HEIGHT = 36;
+
+type OpenCV = typeof import('opencv4nodejs');
+
+interface DetectionConfig {
+    mode: NonNullable<FaceDetectionOptions['mode']>;
+    mediaType: MediaType;
+    confidence: number;
+    eyeDistance: number;
+    sampling: FrameSamplingOptions;
+    sceneDetection: SceneDetectionOptions;
+    identitySimilarity: number;
+    referencePhotos: ReferencePhoto[];
+    referenceSimilarity: number;
+    signal?: AbortSignal;
+}
+
+// Tracker state for a track that can still be extended
+interface ActiveTrack {
+    track: FaceTrack;
+    velocity: { x: number; y: number; width: number; height: number }; // px per ms
+    missedFrames: number;
+    embeddings: number[][];
+}
+
+interface CascadeParams {
+    scaleFactor: number;
+    minNeighbors: number;
+    minConfidence: number;
+}
+
+class FaceDetectionService {
+    private cv: OpenCV | null = null; // Loaded on first detection
+    private classifier: CascadeClassifier | null = null;
+
+    // Aborting the signal stops decoding at the next frame and kills ffprobe
     async detectFaces(
         inputPath: string,
-        options: FaceDetectionOptions = {}
-    ): Promise<DetectedFace[]> {
+        options: FaceDetectionOptions = {},
+        signal?: AbortSignal
+    ): Promise<FaceDetectionResult> {
         try {
             logger.info('Starting face detection', {
                 inputPath,
@@ -43,266 +168,676 @@ class FaceDetectionService {
             }
 
             // Configuration based on ObscuraCam's AndroidFaceDetection
-            const config = {
+            const config: DetectionConfig = {
                 mode: options.mode || 'auto',
+                mediaType: options.mediaType || 'video',
                 confidence: options.confidence || 0.15,
-                maxFaces: options.maxFaces || 10,
                 eyeDistance: options.eyeDistance || 2.0,
+                sampling: options.sampling || {},
+                sceneDetection: options.sceneDetection || {},
+                identitySimilarity: options.identitySimilarity || DEFAULT_IDENTITY_SIMILARITY,
+                referencePhotos: options.referencePhotos || [],
+                referenceSimilarity: options.referenceSimilarity || DEFAULT_REFERENCE_SIMILARITY,
+                signal,
             };
 
-            let faces: DetectedFace[] = [];
+            let result: FaceDetectionResult;
 
             // Try different detection methods based on mode
             switch (config.mode) {
                 case 'conservative':
-                    faces = await this.conservativeDetection(inputPath, config);
+                    result = await this.conservativeDetection(inputPath, config);
                     break;
                 case 'aggressive':
-                    faces = await this.aggressiveDetection(inputPath, config);
+                    result = await this.aggressiveDetection(inputPath, config);
                     break;
                 case 'manual':
-                    faces = await this.manualDetection(inputPath, config);
+                    result = await this.manualDetection(inputPath, config);
                     break;
                 default:
-                    faces = await this.autoDetection(inputPath, config);
+                    result = await this.autoDetection(inputPath, config);
                     break;
             }
 
             logger.info('Face detection completed', {
-                facesDetected: faces.length,
+                facesDetected: result.faces.length,
+                framesAnalyzed: result.analyzedFrames.length,
+                framesDecoded: result.framesDecoded,
+                sceneCuts: result.sceneCuts.length,
                 mode: config.mode,
+                sampling: config.sampling.strategy || 'fixedRate',
             });
 
-            return faces;
+            return result;
         } catch (error) {
+            if (signal?.aborted) {
+                logger.info('Face detection cancelled', { inputPath });
+                throw error;
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
             logger.error('Face detection failed', {
                 inputPath,
-                error: error.message,
-                stack: error.stack,
+                error: message,
+                stack: error instanceof Error ? error.stack : undefined,
             });
-            throw new Error(`Face detection failed: ${error.message}`);
+            throw new Error(`Face detection failed: ${message}`);
         }
     }
 
     private async autoDetection(
         inputPath: string,
-        config: any
-    ): Promise<DetectedFace[]> {
-        // Simulate automatic face detection
-        // In production, this would use OpenCV's face detection algorithms
-        // Based on ObscuraCam's AndroidFaceDetection approach
-
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // Simulate detecting faces at different time intervals
-                const faces: DetectedFace[] = [
-                    {
-                        id: 'face-1',
-                        x: 100,
-                        y: 80,
-                        width: 60,
-                        height: 80,
-                        confidence: 0.85,
-                        timestamp: 0,
-                    },
-                    {
-                        id: 'face-2',
-                        x: 300,
-                        y: 120,
-                        width: 55,
-                        height: 75,
-                        confidence: 0.78,
-                        timestamp: 1000,
-                    },
-                ];
-
-                // Filter by confidence
-                const filteredFaces = faces.filter(
-                    face => face.confidence >= config.confidence
-                );
-
-                // Limit to max faces
-                resolve(filteredFaces.slice(0, config.maxFaces));
-            }, 1500); // Simulate processing time
+        config: DetectionConfig
+    ): Promise<FaceDetectionResult> {
+        return this.detectWithCascade(inputPath, config, {
+            scaleFactor: 1.1,
+            minNeighbors: 4,
+            minConfidence: config.confidence,
         });
     }
 
     private async conservativeDetection(
         inputPath: string,
-        config: any
-    ): Promise<DetectedFace[]> {
-        // More conservative detection - higher confidence threshold
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                const faces: DetectedFace[] = [
-                    {
-                        id: 'face-1',
-                        x: 120,
-                        y: 90,
-                        width: 50,
-                        height: 70,
-                        confidence: 0.92,
-                        timestamp: 0,
-                    },
-                ];
-
-                const filteredFaces = faces.filter(
-                    face => face.confidence >= 0.8
-                );
-
-                resolve(filteredFaces.slice(0, config.maxFaces));
-            }, 2000);
+        config: DetectionConfig
+    ): Promise<FaceDetectionResult> {
+        // More conservative detection - more neighbours and higher confidence threshold
+        return this.detectWithCascade(inputPath, config, {
+            scaleFactor: 1.1,
+            minNeighbors: 6,
+            minConfidence: Math.max(config.confidence, 0.8),
         });
     }
 
     private async aggressiveDetection(
         inputPath: string,
-        config: any
-    ): Promise<DetectedFace[]> {
-        // More aggressive detection - lower confidence threshold
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                const faces: DetectedFace[] = [
-                    {
-                        id: 'face-1',
-                        x: 80,
-                        y: 60,
-                        width: 65,
-                        height: 85,
-                        confidence: 0.65,
-                        timestamp: 0,
-                    },
-                    {
-                        id: 'face-2',
-                        x: 280,
-                        y: 100,
-                        width: 58,
-                        height: 78,
-                        confidence: 0.58,
-                        timestamp: 500,
-                    },
-                    {
-                        id: 'face-3',
-                        x: 180,
-                        y: 140,
-                        width: 52,
-                        height: 68,
-                        confidence: 0.52,
-                        timestamp: 1500,
-                    },
-                ];
-
-                const filteredFaces = faces.filter(
-                    face => face.confidence >= 0.5
-                );
-
-                resolve(filteredFaces.slice(0, config.maxFaces));
-            }, 1000);
+        config: DetectionConfig
+    ): Promise<FaceDetectionResult> {
+        // More aggressive detection - finer scale steps and fewer neighbours
+        return this.detectWithCascade(inputPath, config, {
+            scaleFactor: 1.05,
+            minNeighbors: 2,
+            minConfidence: Math.min(config.confidence, 0.25),
         });
     }
 
     private async manualDetection(
         inputPath: string,
-        config: any
+        config: DetectionConfig
+    ): Promise<FaceDetectionResult> {
+        // Manual detection - no faces, the user specifies regions themselves
+        return {
+            faces: [],
+            tracks: [],
+            identities: [],
+            analyzedFrames: [],
+            sceneCuts: [],
+            fps: 0,
+            framesDecoded: 0,
+        };
+    }
+
+    // Decode the video on the CPU and run the frontal face Haar cascade
+    // bundled with opencv4nodejs on the frames picked by the sampler
+    private async detectWithCascade(
+        inputPath: string,
+        config: DetectionConfig,
+        params: CascadeParams
+    ): Promise<FaceDetectionResult> {
+        const cv = this.loadOpenCV();
+        const classifier = this.getClassifier(cv);
+
+        if (config.mediaType === 'image') {
+            return this.detectInImage(cv, classifier, inputPath, config, params);
+        }
+
+        const capture = new cv.VideoCapture(inputPath);
+
+        try {
+            const fps = capture.get(cv.CAP_PROP_FPS) || DEFAULT_FPS;
+            const keyframeIndices = config.sampling.strategy === 'keyframes'
+                ? await probeKeyframeIndices(inputPath, fps, config.signal)
+                : [];
+            const sampler = new FrameSampler(config.sampling, keyframeIndices);
+            const sceneDetector = new SceneCutDetector(config.sceneDetection);
+            const faces: DetectedFace[] = [];
+            const analyzedFrames: AnalyzedFrame[] = [];
+            let previousThumbnail: Mat | null = null;
+            let frameIndex = 0;
+
+            for (let frame = await capture.readAsync(); !frame.empty; frame = await capture.readAsync()) {
+                config.signal?.throwIfAborted();
+
+                const timestamp = Math.round((frameIndex / fps) * 1000);
+                let motionScore = 0;
+
+                // Every frame is checked for cuts, not only the sampled ones, so
+                // a cut between two samples is still found
+                const thumbnail: Mat = await frame.resizeAsync(DIFF_THUMBNAIL_HEIGHT, DIFF_THUMBNAIL_WIDTH);
+                const sceneCut = sceneDetector.observe(frameIndex, timestamp, thumbnail.getData());
+
+                if (sampler.needsMotionScore) {
+                    const grayThumbnail = await thumbnail.bgrToGrayAsync();
+                    motionScore = previousThumbnail ? grayThumbnail.absdiff(previousThumbnail).mean().w : 0;
+                    previousThumbnail = grayThumbnail;
+                }
+
+                const analyzedFrame = sampler.shouldAnalyze(frameIndex, timestamp, motionScore, Boolean(sceneCut));
+
+                if (analyzedFrame) {
+                    // Every face is kept; a face dropped here would be left unblurred
+                    faces.push(...await this.detectInFrame(cv, classifier, frame, frameIndex, timestamp, params));
+                    analyzedFrames.push(analyzedFrame);
+                }
+                frameIndex++;
+            }
+
+            const sceneCuts = sceneDetector.getCuts();
+
+            logger.debug('Cascade detection finished', {
+                inputPath,
+                framesDecoded: frameIndex,
+                framesAnalyzed: analyzedFrames.length,
+                sceneCuts: sceneCuts.length,
+                sampling: sampler.strategy,
+                fps,
+                facesDetected: faces.length,
+            });
+
+            const tracks = this.trackFacesAcrossTime(faces, analyzedFrames, sceneCuts);
+            const identities = this.groupTracksByIdentity(tracks, config.identitySimilarity);
+            await this.applyReferencePhotos(cv, classifier, tracks, config, params);
+
+            return {
+                faces,
+                tracks,
+                identities,
+                analyzedFrames,
+                sceneCuts,
+                fps,
+                framesDecoded: frameIndex,
+            };
+        } finally {
+            capture.release();
+        }
+    }
+
+    // A still image is a single analyzed frame. Every face becomes its own
+    // track with one keyframe, held long enough to cover the rendered frame.
+    private async detectInImage(
+        cv: OpenCV,
+        classifier: CascadeClassifier,
+        inputPath: string,
+        config: DetectionConfig,
+        params: CascadeParams
+    ): Promise<FaceDetectionResult> {
+        // Orientation was already applied to the pixels when the image was uploaded
+        const image = await cv.imreadAsync(inputPath);
+        const faces = await this.detectInFrame(
+            cv,
+            classifier,
+            image,
+            0,
+            0,
+            params,
+            MAX_IMAGE_DETECTION_WIDTH,
+            MIN_IMAGE_FACE_RATIO
+        );
+
+        const tracks: FaceTrack[] = faces.map((face, index) => ({
+            id: `track-${index}`,
+            startTime: 0,
+            endTime: TRACK_HOLD_MS,
+            keyframes: [this.toKeyframe(face)],
+            confidence: face.confidence,
+            embedding: face.embedding,
+        }));
+        const identities = this.groupTracksByIdentity(tracks, config.identitySimilarity);
+        await this.applyReferencePhotos(cv, classifier, tracks, config, params);
+
+        logger.debug('Image detection finished', {
+            inputPath,
+            width: image.cols,
+            height: image.rows,
+            facesDetected: faces.length,
+        });
+
+        return {
+            faces,
+            tracks,
+            identities,
+            analyzedFrames: [{ index: 0, timestamp: 0, reason: 'interval' }],
+            sceneCuts: [],
+            fps: 0,
+            framesDecoded: 1,
+        };
+    }
+
+    private async applyReferencePhotos(
+        cv: OpenCV,
+        classifier: CascadeClassifier,
+        tracks: FaceTrack[],
+        config: DetectionConfig,
+        params: CascadeParams
+    ): Promise<void> {
+        if (config.referencePhotos.length === 0) {
+            return;
+        }
+
+        const references = await this.embedReferencePhotos(cv, classifier, config.referencePhotos, params);
+        this.matchTracksToReferences(tracks, references, config.referenceSimilarity);
+    }
+
+    private async detectInFrame(
+        cv: OpenCV,
+        classifier: CascadeClassifier,
+        frame: Mat,
+        frameIndex: number,
+        timestamp: number,
+        params: CascadeParams,
+        maxWidth = MAX_DETECTION_WIDTH,
+        minFaceRatio = MIN_FACE_RATIO
     ): Promise<DetectedFace[]> {
-        // Manual detection - return empty array for user to manually specify regions
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                resolve([]);
-            }, 500);
+        const scale = frame.cols > maxWidth ? maxWidth / frame.cols : 1;
+        const resized = scale < 1 ? await frame.rescaleAsync(scale) : frame;
+        const gray = await (await resized.bgrToGrayAsync()).equalizeHistAsync();
+
+        // Ignore anything smaller than minFaceRatio of the frame, it is noise at this scale
+        const minSide = Math.max(20, Math.round(Math.min(gray.cols, gray.rows) * minFaceRatio));
+        const { objects, numDetections } = await classifier.detectMultiScaleAsync(
+            gray,
+            params.scaleFactor,
+            params.minNeighbors,
+            0,
+            new cv.Size(minSide, minSide)
+        );
+
+        const detections = objects
+            .map((rect, index) => ({ rect, confidence: this.neighborsToConfidence(numDetections[index]) }))
+            .filter(detection => detection.confidence >= params.minConfidence)
+            .sort((a, b) => b.confidence - a.confidence);
+
+        return Promise.all(detections.map(async ({ rect, confidence }, index) => ({
+            id: `face-${frameIndex}-${index}`,
+            x: rect.x / scale,
+            y: rect.y / scale,
+            width: rect.width / scale,
+            height: rect.height / scale,
+            confidence,
+            timestamp,
+            embedding: await computeFaceEmbedding(cv, gray, rect),
+        })));
+    }
+
+    // Embedding of the largest face in each reference photo. Photos without a
+    // face are logged and skipped so the rest of the references still apply.
+    private async embedReferencePhotos(
+        cv: OpenCV,
+        classifier: CascadeClassifier,
+        photos: ReferencePhoto[],
+        params: CascadeParams
+    ): Promise<{ id: string; embedding: number[] }[]> {
+        const references: { id: string; embedding: number[] }[] = [];
+
+        for (const photo of photos) {
+            try {
+                const image = await cv.imreadAsync(photo.path);
+                // A reference is a deliberate portrait, so any face the cascade finds counts
+                const faces = await this.detectInFrame(cv, classifier, image, 0, 0, { ...params, minConfidence: 0 });
+                const largest = faces.reduce<DetectedFace | null>((best, face) =>
+                    !best || face.width * face.height > best.width * best.height ? face : best, null);
+
+                if (!largest?.embedding) {
+                    logger.warn('No face found in reference photo', {
+                        referenceId: photo.id,
+                        originalName: photo.originalName,
+                    });
+                    continue;
+                }
+
+                references.push({ id: photo.id, embedding: largest.embedding });
+            } catch (error) {
+                logger.error('Failed to read reference photo', {
+                    referenceId: photo.id,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        return references;
+    }
+
+    // Tag tracks that look like a reference photo. Each track has to match on
+    // its own; identities are only grouped by likeness, so a match is not
+    // spread to the other tracks of the same identity.
+    matchTracksToReferences(
+        tracks: FaceTrack[],
+        references: { id: string; embedding: number[] }[],
+        minSimilarity = DEFAULT_REFERENCE_SIMILARITY
+    ): void {
+        for (const track of tracks) {
+            if (!track.embedding) {
+                continue;
+            }
+
+            let bestSimilarity = minSimilarity;
+            for (const reference of references) {
+                const similarity = cosineSimilarity(track.embedding, reference.embedding);
+                if (similarity >= bestSimilarity) {
+                    bestSimilarity = similarity;
+                    track.referenceId = reference.id;
+                }
+            }
+        }
+
+        logger.debug('Tracks matched to reference photos', {
+            references: references.length,
+            matchedTracks: tracks.filter(track => track.referenceId).length,
         });
     }
 
-    // Convert detected faces to blur regions for video processing
-    facesToBlurRegions(faces: DetectedFace[]): any[] {
-        // Based on ObscuraCam's approach - extend face regions
-        // widthBuffer = eyeDistance * 1.5f
-        // heightBuffer = eyeDistance * 2f
+    // Haar cascades have no score; the number of overlapping raw detections
+    // that were merged into a face is the usual stand-in for one
+    private neighborsToConfidence(neighbors: number): number {
+        return 1 - Math.exp(-neighbors / 6);
+    }
+
+    private loadOpenCV(): OpenCV {
+        if (!this.cv) {
+            try {
+                this.cv = require('opencv4nodejs') as OpenCV;
+            } catch (error) {
+                throw new Error(`opencv4nodejs could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        return this.cv;
+    }
+
+    private getClassifier(cv: OpenCV): CascadeClassifier {
+        if (!this.classifier) {
+            this.classifier = new cv.CascadeClassifier(cv.HAAR_FRONTALFACE_ALT2);
+        }
 
+        return this.classifier;
+    }
+
+    // Convert detected faces to blur regions for video processing
+    facesToBlurRegions(faces: DetectedFace[]): BlurRegion[] {
         return faces.map(face => ({
+            ...this.expandFaceBox(face),
             id: face.id,
-            x: Math.max(0, face.x - face.width * 0.75),
-            y: Math.max(0, face.y - face.height * 1.0),
-            width: face.width * 2.5,
-            height: face.height * 2.0,
             confidence: face.confidence,
             timestamp: face.timestamp,
         }));
     }
 
-    // Face tracking across video frames
+    // Same extension as facesToBlurRegions, applied to every keyframe.
+    // Manual regions already cover what the user drew and are left as they are
+    tracksToBlurRegions(tracks: FaceTrack[]): FaceTrack[] {
+        return tracks.map(track => track.source === 'manual' ? track : ({
+            ...track,
+            keyframes: track.keyframes.map(keyframe => ({
+                ...keyframe,
+                ...this.expandFaceBox(keyframe),
+            })),
+        }));
+    }
+
+    // Box of a track at a given time, linearly interpolated between keyframes
+    getTrackBoxAt(
+        track: FaceTrack,
+        timestamp: number
+    ): { x: number; y: number; width: number; height: number } | null {
+        if (timestamp < track.startTime || timestamp > track.endTime || track.keyframes.length === 0) {
+            return null;
+        }
+
+        const nextIndex = track.keyframes.findIndex(keyframe => keyframe.timestamp >= timestamp);
+
+        if (nextIndex === -1) {
+            const { x, y, width, height } = track.keyframes[track.keyframes.length - 1];
+            return { x, y, width, height };
+        }
+
+        const next = track.keyframes[nextIndex];
+        const previous = track.keyframes[Math.max(0, nextIndex - 1)];
+        const span = next.timestamp - previous.timestamp;
+        const ratio = span > 0 ? (timestamp - previous.timestamp) / span : 1;
+        const lerp = (a: number, b: number) => a + (b - a) * ratio;
+
+        return {
+            x: lerp(previous.x, next.x),
+            y: lerp(previous.y, next.y),
+            width: lerp(previous.width, next.width),
+            height: lerp(previous.height, next.height),
+        };
+    }
+
+    // Face tracking across analyzed frames: each track's box is predicted
+    // forward with its current velocity and linked to the detection it
+    // overlaps most (IoU). All tracks end at a scene cut, since a face in the
+    // same spot of the next shot is unrelated.
     trackFacesAcrossTime(
-        facesByFrame: Map<number, DetectedFace[]>
-    ): DetectedFace[] {
-        const trackedFaces: DetectedFace[] = [];
-        const faceTracks = new Map<string, DetectedFace[]>();
-
-        // Group faces by similar positions across frames
-        for (const [frameNum, faces] of facesByFrame.entries()) {
-            for (const face of faces) {
-                let assigned = false;
-
-                // Try to match with existing tracks
-                for (const [trackId, track] of faceTracks.entries()) {
-                    const lastFace = track[track.length - 1];
-                    if (this.isSameFace(face, lastFace)) {
-                        track.push(face);
-                        faceTracks.set(trackId, track);
-                        assigned = true;
-                        break;
+        faces: DetectedFace[],
+        analyzedFrames: AnalyzedFrame[],
+        sceneCuts: SceneCut[] = []
+    ): FaceTrack[] {
+        const facesByTimestamp = new Map<number, DetectedFace[]>();
+        for (const face of faces) {
+            const frameFaces = facesByTimestamp.get(face.timestamp) || [];
+            frameFaces.push(face);
+            facesByTimestamp.set(face.timestamp, frameFaces);
+        }
+
+        const timestamps = analyzedFrames.length > 0
+            ? analyzedFrames.map(frame => frame.timestamp)
+            : Array.from(facesByTimestamp.keys());
+        timestamps.sort((a, b) => a - b);
+
+        const cutTimestamps = sceneCuts.map(cut => cut.timestamp).sort((a, b) => a - b);
+        const active: ActiveTrack[] = [];
+        const finished: ActiveTrack[] = [];
+        let nextTrackNumber = 0;
+        let previousTimestamp = -Infinity;
+
+        for (const timestamp of timestamps) {
+            if (cutTimestamps.some(cut => cut > previousTimestamp && cut <= timestamp)) {
+                finished.push(...active.splice(0));
+            }
+            previousTimestamp = timestamp;
+
+            const frameFaces = facesByTimestamp.get(timestamp) || [];
+            const candidates: { trackIndex: number; faceIndex: number; iou: number }[] = [];
+
+            active.forEach((activeTrack, trackIndex) => {
+                const predicted = this.predictBox(activeTrack, timestamp);
+                frameFaces.forEach((face, faceIndex) => {
+                    const iou = this.intersectionOverUnion(predicted, face);
+                    if (iou >= TRACK_IOU_THRESHOLD) {
+                        candidates.push({ trackIndex, faceIndex, iou });
                     }
+                });
+            });
+
+            // Greedy assignment, best overlaps first
+            candidates.sort((a, b) => b.iou - a.iou);
+            const matchedTracks = new Set<number>();
+            const matchedFaces = new Set<number>();
+
+            for (const { trackIndex, faceIndex } of candidates) {
+                if (matchedTracks.has(trackIndex) || matchedFaces.has(faceIndex)) {
+                    continue;
                 }
+                matchedTracks.add(trackIndex);
+                matchedFaces.add(faceIndex);
+                this.extendTrack(active[trackIndex], frameFaces[faceIndex]);
+            }
 
-                // Create new track if not assigned
-                if (!assigned) {
-                    faceTracks.set(`track-${faceTracks.size}`, [face]);
+            // Age out tracks that were not seen in this frame
+            for (let trackIndex = active.length - 1; trackIndex >= 0; trackIndex--) {
+                if (matchedTracks.has(trackIndex)) {
+                    continue;
+                }
+                active[trackIndex].missedFrames++;
+                if (active[trackIndex].missedFrames > TRACK_MAX_MISSED_FRAMES) {
+                    finished.push(...active.splice(trackIndex, 1));
                 }
             }
+
+            frameFaces.forEach((face, faceIndex) => {
+                if (!matchedFaces.has(faceIndex)) {
+                    active.push({
+                        track: {
+                            id: `track-${nextTrackNumber++}`,
+                            startTime: face.timestamp,
+                            endTime: face.timestamp,
+                            keyframes: [this.toKeyframe(face)],
+                            confidence: face.confidence,
+                        },
+                        velocity: { x: 0, y: 0, width: 0, height: 0 },
+                        missedFrames: 0,
+                        embeddings: face.embedding ? [face.embedding] : [],
+                    });
+                }
+            });
         }
 
-        // Convert tracks to stable face detections
-        for (const [trackId, track] of faceTracks.entries()) {
-            if (track.length > 2) { // Only include faces that appear in multiple frames
-                const stableFace = this.calculateStableFace(track);
-                trackedFaces.push({
-                    ...stableFace,
-                    id: trackId,
-                });
+        finished.push(...active);
+
+        // Faces seen only once are kept however unsure the detector was, and
+        // are held between the analyzed frames around them like any other track
+        return finished
+            .map(activeTrack => this.finishTrack(activeTrack, timestamps, cutTimestamps))
+            .sort((a, b) => a.startTime - b.startTime);
+    }
+
+    private extendTrack(activeTrack: ActiveTrack, face: DetectedFace): void {
+        const { track, velocity } = activeTrack;
+        const last = track.keyframes[track.keyframes.length - 1];
+        const elapsed = face.timestamp - last.timestamp;
+
+        if (elapsed > 0) {
+            // Smooth the velocity so one jittery detection does not throw the prediction off
+            const smooth = (current: number, delta: number) => current * 0.5 + (delta / elapsed) * 0.5;
+            velocity.x = smooth(velocity.x, face.x - last.x);
+            velocity.y = smooth(velocity.y, face.y - last.y);
+            velocity.width = smooth(velocity.width, face.width - last.width);
+            velocity.height = smooth(velocity.height, face.height - last.height);
+        }
+
+        track.keyframes.push(this.toKeyframe(face));
+        track.endTime = face.timestamp;
+        activeTrack.missedFrames = 0;
+
+        if (face.embedding) {
+            activeTrack.embeddings.push(face.embedding);
+        }
+    }
+
+    // Cluster tracks into people and tag each track with its identity, so one
+    // review decision can cover every appearance of the same person
+    groupTracksByIdentity(tracks: FaceTrack[], minSimilarity = DEFAULT_IDENTITY_SIMILARITY): FaceIdentity[] {
+        const identities = clusterTracksIntoIdentities(tracks, minSimilarity);
+
+        for (const identity of identities) {
+            for (const track of tracks) {
+                if (identity.trackIds.includes(track.id)) {
+                    track.identityId = identity.id;
+                }
             }
         }
 
-        return trackedFaces;
+        logger.debug('Tracks grouped by identity', {
+            tracks: tracks.length,
+            identities: identities.length,
+        });
+
+        return identities;
     }
 
-    private isSameFace(face1: DetectedFace, face2: DetectedFace): boolean {
-        const positionThreshold = 50;
-        const sizeThreshold = 20;
+    // Extend the track back to the previous analyzed frame and forward to the
+    // next one, where the face was not found yet or no longer, but never past
+    // a scene cut, and compute its mean confidence and appearance. A face that
+    // enters mid-shot may be on screen for a while before it is first detected
+    private finishTrack(
+        activeTrack: ActiveTrack,
+        analyzedTimestamps: number[],
+        cutTimestamps: number[]
+    ): FaceTrack {
+        const { track } = activeTrack;
+        const firstSeen = track.keyframes[0].timestamp;
+        const lastSeen = track.keyframes[track.keyframes.length - 1].timestamp;
+        const previousAnalyzed = [...analyzedTimestamps].reverse().find(timestamp => timestamp < firstSeen);
+        const nextAnalyzed = analyzedTimestamps.find(timestamp => timestamp > lastSeen);
+        // A cut at the first frame starts the shot, so the track keeps its start
+        const previousCut = [...cutTimestamps].reverse().find(timestamp => timestamp <= firstSeen);
+        const nextCut = cutTimestamps.find(timestamp => timestamp > lastSeen);
+        const heldFrom = previousAnalyzed !== undefined ? previousAnalyzed : Math.max(0, firstSeen - TRACK_HOLD_MS);
+        const heldUntil = nextAnalyzed !== undefined ? nextAnalyzed : lastSeen + TRACK_HOLD_MS;
 
-        return (
-            Math.abs(face1.x - face2.x) < positionThreshold &&
-            Math.abs(face1.y - face2.y) < positionThreshold &&
-            Math.abs(face1.width - face2.width) < sizeThreshold &&
-            Math.abs(face1.height - face2.height) < sizeThreshold
-        );
+        return {
+            ...track,
+            startTime: previousCut !== undefined ? Math.max(heldFrom, previousCut) : heldFrom,
+            endTime: nextCut !== undefined ? Math.min(heldUntil, nextCut) : heldUntil,
+            confidence: track.keyframes.reduce((sum, keyframe) => sum + keyframe.confidence, 0) /
+                track.keyframes.length,
+            embedding: averageEmbeddings(activeTrack.embeddings),
+        };
+    }
+
+    private predictBox(
+        activeTrack: ActiveTrack,
+        timestamp: number
+    ): { x: number; y: number; width: number; height: number } {
+        const last = activeTrack.track.keyframes[activeTrack.track.keyframes.length - 1];
+        const elapsed = timestamp - last.timestamp;
+        const { velocity } = activeTrack;
+
+        return {
+            x: last.x + velocity.x * elapsed,
+            y: last.y + velocity.y * elapsed,
+            width: Math.max(1, last.width + velocity.width * elapsed),
+            height: Math.max(1, last.height + velocity.height * elapsed),
+        };
+    }
+
+    private intersectionOverUnion(
+        a: { x: number; y: number; width: number; height: number },
+        b: { x: number; y: number; width: number; height: number }
+    ): number {
+        const overlapWidth = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+        const overlapHeight = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+
+        if (overlapWidth <= 0 || overlapHeight <= 0) {
+            return 0;
+        }
+
+        const intersection = overlapWidth * overlapHeight;
+        return intersection / (a.width * a.height + b.width * b.height - intersection);
     }
 
-    private calculateStableFace(track: DetectedFace[]): DetectedFace {
-        // Calculate average position and size across the track
-        const avgX = track.reduce((sum, face) => sum + face.x, 0) / track.length;
-        const avgY = track.reduce((sum, face) => sum + face.y, 0) / track.length;
-        const avgWidth = track.reduce((sum, face) => sum + face.width, 0) / track.length;
-        const avgHeight = track.reduce((sum, face) => sum + face.height, 0) / track.length;
-        const avgConfidence = track.reduce((sum, face) => sum + face.confidence, 0) / track.length;
-        const avgTimestamp = track[Math.floor(track.length / 2)].timestamp;
+    private toKeyframe(face: DetectedFace): TrackKeyframe {
+        return {
+            timestamp: face.timestamp,
+            x: face.x,
+            y: face.y,
+            width: face.width,
+            height: face.height,
+            confidence: face.confidence,
+        };
+    }
 
+    private expandFaceBox(
+        box: { x: number; y: number; width: number; height: number }
+    ): { x: number; y: number; width: number; height: number } {
+        // Based on ObscuraCam's approach - extend face regions
+        // widthBuffer = eyeDistance * 1.5f
+        // heightBuffer = eyeDistance * 2f
         return {
-            id: track[0].id,
-            x: avgX,
-            y: avgY,
-            width: avgWidth,
-            height: avgHeight,
-            confidence: avgConfidence,
-            timestamp: avgTimestamp,
+            x: Math.max(0, box.x - box.width * 0.75),
+            y: Math.max(0, box.y - box.height * 1.0),
+            width: box.width * 2.5,
+            height: box.height * 2.0,
         };
     }
 }
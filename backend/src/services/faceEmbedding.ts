@@ -0,0 +1,209 @@
+import type { Mat } from 'opencv4nodejs';
+
+// Faces are compared with uniform local binary pattern (LBP) histograms, the
+// descriptor behind OpenCV's LBPH recognizer. It runs on the CPU in a few
+// microseconds per face and needs no model download.
+
+type OpenCV = typeof import('opencv4nodejs');
+
+// Side of the square patch a face is resized to before describing it
+const PATCH_SIZE = 64;
+
+// The patch is split into GRID x GRID cells with one histogram each, so the
+// descriptor keeps a coarse layout of eyes, nose and mouth
+const GRID = 4;
+
+// 58 uniform patterns plus one bin for all the others
+const UNIFORM_BINS = 59;
+
+export const EMBEDDING_LENGTH = GRID * GRID * UNIFORM_BINS;
+
+// Default cosine similarity two tracks need to be treated as the same person
+export const DEFAULT_IDENTITY_SIMILARITY = 0.9;
+
+// Default cosine similarity a track needs to a reference photo to count as
+// that person. LBP histograms of different people often score above 0.85, and
+// a false match leaves a face unblurred, so only near-identical faces match.
+export const DEFAULT_REFERENCE_SIMILARITY = 0.95;
+
+export interface FaceIdentity {
+    id: string;
+    trackIds: string[];
+}
+
+// Photo of someone who must stay unblurred, uploaded with the video
+export interface ReferencePhoto {
+    id: string;
+    path: string;
+    originalName: string;
+}
+
+// Anything clustering needs to know about a track
+export interface EmbeddedTrack {
+    id: string;
+    startTime: number;
+    keyframes: { timestamp: number }[];
+    embedding?: number[];
+}
+
+// Maps each 8-bit LBP code to its uniform pattern bin
+const UNIFORM_LOOKUP = buildUniformLookup();
+
+function buildUniformLookup(): Uint8Array {
+    const lookup = new Uint8Array(256);
+    let nextBin = 0;
+
+    for (let code = 0; code < 256; code++) {
+        let transitions = 0;
+        for (let bit = 0; bit < 8; bit++) {
+            const current = (code >> bit) & 1;
+            const next = (code >> ((bit + 1) % 8)) & 1;
+            transitions += current !== next ? 1 : 0;
+        }
+        lookup[code] = transitions <= 2 ? nextBin++ : UNIFORM_BINS - 1;
+    }
+
+    return lookup;
+}
+
+// Descriptor of a face given a grayscale frame and the face box in that frame
+export async function computeFaceEmbedding(
+    cv: OpenCV,
+    gray: Mat,
+    box: { x: number; y: number; width: number; height: number }
+): Promise<number[]> {
+    const x = Math.max(0, Math.floor(box.x));
+    const y = Math.max(0, Math.floor(box.y));
+    const width = Math.min(gray.cols - x, Math.ceil(box.width));
+    const height = Math.min(gray.rows - y, Math.ceil(box.height));
+
+    const patch = await gray.getRegion(new cv.Rect(x, y, width, height)).resizeAsync(PATCH_SIZE, PATCH_SIZE);
+    const pixels = patch.getData();
+    const histogram = new Array<number>(EMBEDDING_LENGTH).fill(0);
+
+    // Neighbours clockwise from the top-left
+    const offsets = [
+        [-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0],
+    ];
+
+    for (let row = 1; row < PATCH_SIZE - 1; row++) {
+        for (let column = 1; column < PATCH_SIZE - 1; column++) {
+            const center = pixels[row * PATCH_SIZE + column];
+            let code = 0;
+
+            offsets.forEach(([dx, dy], bit) => {
+                if (pixels[(row + dy) * PATCH_SIZE + column + dx] >= center) {
+                    code |= 1 << bit;
+                }
+            });
+
+            const cell = Math.floor((row * GRID) / PATCH_SIZE) * GRID + Math.floor((column * GRID) / PATCH_SIZE);
+            histogram[cell * UNIFORM_BINS + UNIFORM_LOOKUP[code]]++;
+        }
+    }
+
+    // Square root first (Hellinger kernel) so cosine similarity compares
+    // histograms fairly, then unit length
+    return normalize(histogram.map(Math.sqrt));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    for (let index = 0; index < a.length; index++) {
+        dot += a[index] * b[index];
+    }
+    return dot;
+}
+
+// Unit-length mean of several embeddings of the same face
+export function averageEmbeddings(embeddings: number[][]): number[] | undefined {
+    if (embeddings.length === 0) {
+        return undefined;
+    }
+
+    const sum = new Array<number>(embeddings[0].length).fill(0);
+    for (const embedding of embeddings) {
+        embedding.forEach((value, index) => {
+            sum[index] += value;
+        });
+    }
+
+    return normalize(sum);
+}
+
+// Agglomerative clustering of tracks into identities: the two most similar
+// clusters are merged until no pair reaches minSimilarity. Two tracks that
+// were detected at the same time are different people and never merged.
+// Detection times are compared rather than start and end, which are held
+// out to the analyzed frames around the track and overlap for the same
+// person when one track is lost and a new one picks the face up.
+export function clusterTracksIntoIdentities(
+    tracks: EmbeddedTrack[],
+    minSimilarity = DEFAULT_IDENTITY_SIMILARITY
+): FaceIdentity[] {
+    const clusters = [...tracks]
+        .sort((a, b) => a.startTime - b.startTime)
+        .map(track => ({
+            tracks: [track],
+            embedding: track.embedding,
+        }));
+
+    for (;;) {
+        let best: { first: number; second: number; similarity: number } | null = null;
+
+        for (let first = 0; first < clusters.length; first++) {
+            for (let second = first + 1; second < clusters.length; second++) {
+                const a = clusters[first];
+                const b = clusters[second];
+
+                if (!a.embedding || !b.embedding || overlapInTime(a.tracks, b.tracks)) {
+                    continue;
+                }
+
+                const similarity = cosineSimilarity(a.embedding, b.embedding);
+                if (similarity >= minSimilarity && (!best || similarity > best.similarity)) {
+                    best = { first, second, similarity };
+                }
+            }
+        }
+
+        if (!best) {
+            break;
+        }
+
+        const merged = clusters[best.first];
+        const absorbed = clusters.splice(best.second, 1)[0];
+        const weights = [merged.tracks.length, absorbed.tracks.length];
+
+        merged.embedding = normalize(
+            (merged.embedding as number[]).map((value, index) =>
+                value * weights[0] + (absorbed.embedding as number[])[index] * weights[1]
+            )
+        );
+        merged.tracks.push(...absorbed.tracks);
+    }
+
+    return clusters.map((cluster, index) => ({
+        id: `person-${index}`,
+        trackIds: cluster.tracks.map(track => track.id),
+    }));
+}
+
+function overlapInTime(a: EmbeddedTrack[], b: EmbeddedTrack[]): boolean {
+    return a.some(first => b.some(second =>
+        firstSeen(first) <= lastSeen(second) && firstSeen(second) <= lastSeen(first)
+    ));
+}
+
+function firstSeen(track: EmbeddedTrack): number {
+    return track.keyframes[0].timestamp;
+}
+
+function lastSeen(track: EmbeddedTrack): number {
+    return track.keyframes[track.keyframes.length - 1].timestamp;
+}
+
+function normalize(vector: number[]): number[] {
+    const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return length > 0 ? vector.map(value => value / length) : vector;
+}
@@ -0,0 +1,92 @@
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { FrameSampler, validateSamplingOptions } from './frameSampler';
+
+// Feeds frames of a video at the given rate and returns the analyzed indices
+function sampledIndices(sampler: FrameSampler, frames: number, fps: number, motionScores: number[] = []): number[] {
+    const analyzed: number[] = [];
+
+    for (let index = 0; index < frames; index++) {
+        if (sampler.shouldAnalyze(index, (index * 1000) / fps, motionScores[index] || 0)) {
+            analyzed.push(index);
+        }
+    }
+
+    return analyzed;
+}
+
+describe('FrameSampler', () => {
+    it('samples at a fixed rate by default', () => {
+        const sampler = new FrameSampler();
+
+        expect(sampler.strategy).toBe('fixedRate');
+        expect(sampledIndices(sampler, 30, 30)).toEqual([0, 6, 12, 18, 24]);
+    });
+
+    it('takes one frame out of every N', () => {
+        const sampler = new FrameSampler({ strategy: 'everyNth', everyNth: 4 });
+
+        expect(sampledIndices(sampler, 10, 30)).toEqual([0, 4, 8]);
+    });
+
+    it('takes the keyframes and always the first frame', () => {
+        expect(sampledIndices(new FrameSampler({ strategy: 'keyframes' }, [5, 9]), 12, 30)).toEqual([0, 5, 9]);
+        expect(sampledIndices(new FrameSampler({ strategy: 'keyframes' }), 12, 30)).toEqual([0]);
+    });
+
+    it('samples faster while motion is high', () => {
+        const sampler = new FrameSampler({ strategy: 'adaptive', fps: 2, maxFps: 10, motionThreshold: 8 });
+        const calm = new Array(15).fill(0);
+        const busy = new Array(15).fill(10);
+
+        expect(sampler.needsMotionScore).toBe(true);
+        expect(sampledIndices(sampler, 30, 30, [...calm, ...busy])).toEqual([0, 15, 18, 21, 24, 27]);
+    });
+
+    it('samples a scene change right away', () => {
+        const sampler = new FrameSampler({ strategy: 'adaptive', fps: 1, sceneChangeThreshold: 40 });
+
+        expect(sampler.shouldAnalyze(0, 0)?.reason).toBe('interval');
+        expect(sampler.shouldAnalyze(1, 33, 50)?.reason).toBe('sceneChange');
+    });
+
+    it('samples the first frame of a cut whatever the strategy', () => {
+        const sampler = new FrameSampler({ strategy: 'everyNth', everyNth: 10 });
+
+        expect(sampler.shouldAnalyze(3, 100)).toBeNull();
+        expect(sampler.shouldAnalyze(3, 100, 0, true)).toEqual({ index: 3, timestamp: 100, reason: 'sceneChange' });
+    });
+
+    it('counts the fixed rate from the last analyzed frame, cuts included', () => {
+        const sampler = new FrameSampler({ fps: 5 });
+
+        sampler.shouldAnalyze(0, 0);
+        sampler.shouldAnalyze(4, 133, 0, true);
+
+        expect(sampler.shouldAnalyze(6, 200)).toBeNull();
+        expect(sampler.shouldAnalyze(10, 333)?.reason).toBe('interval');
+    });
+});
+
+describe('validateSamplingOptions', () => {
+    it('accepts the defaults and every strategy', () => {
+        expect(validateSamplingOptions({})).toBeNull();
+        expect(validateSamplingOptions({ strategy: 'adaptive', fps: 2, maxFps: 12 })).toBeNull();
+    });
+
+    it('rejects an unknown strategy', () => {
+        expect(validateSamplingOptions({ strategy: 'random' as any })).toBe(
+            'sampling.strategy must be one of: everyNth, fixedRate, keyframes, adaptive'
+        );
+    });
+
+    it('rejects rates and thresholds that are not positive numbers', () => {
+        expect(validateSamplingOptions({ fps: 0 })).toBe('sampling.fps must be a positive number');
+        expect(validateSamplingOptions({ everyNth: -2 })).toBe('sampling.everyNth must be a positive number');
+        expect(validateSamplingOptions({ motionThreshold: '8' as any })).toBe(
+            'sampling.motionThreshold must be a positive number'
+        );
+    });
+});
@@ -0,0 +1,153 @@
+import { execFile } from 'child_process';
+import { logger } from '../utils/logger';
+
+export type FrameSamplingStrategy = 'everyNth' | 'fixedRate' | 'keyframes' | 'adaptive';
+
+export interface FrameSamplingOptions {
+    strategy?: FrameSamplingStrategy;
+    everyNth?: number; // everyNth: analyze one frame out of N
+    fps?: number; // fixedRate: analyzed frames per second; adaptive: rate for calm footage
+    maxFps?: number; // adaptive: rate while motion is high
+    motionThreshold?: number; // adaptive: mean pixel difference (0-255) that counts as high motion
+    sceneChangeThreshold?: number; // adaptive: difference that forces an immediate sample
+}
+
+export interface AnalyzedFrame {
+    index: number;
+    timestamp: number; // ms
+    reason: 'interval' | 'keyframe' | 'motion' | 'sceneChange';
+}
+
+const DEFAULT_SAMPLING: Required<FrameSamplingOptions> = {
+    strategy: 'fixedRate',
+    everyNth: 6,
+    fps: 5,
+    maxFps: 15,
+    motionThreshold: 8,
+    sceneChangeThreshold: 40,
+};
+
+// Decides, frame by frame, which decoded frames the detector runs on.
+// One sampler is created per detection run since it keeps state between frames.
+export class FrameSampler {
+    private readonly options: Required<FrameSamplingOptions>;
+    private readonly keyframeIndices: Set<number>;
+    private lastAnalyzedTimestamp = -Infinity;
+
+    constructor(options: FrameSamplingOptions = {}, keyframeIndices: number[] = []) {
+        this.options = { ...DEFAULT_SAMPLING, ...options };
+        this.keyframeIndices = new Set(keyframeIndices);
+    }
+
+    get strategy(): FrameSamplingStrategy {
+        return this.options.strategy;
+    }
+
+    // Only the adaptive strategy looks at frame differences
+    get needsMotionScore(): boolean {
+        return this.options.strategy === 'adaptive';
+    }
+
+    // A scene cut always samples its first frame, whatever the strategy, so
+    // faces in the new shot are picked up straight away
+    shouldAnalyze(frameIndex: number, timestamp: number, motionScore = 0, isSceneCut = false): AnalyzedFrame | null {
+        const reason = isSceneCut ? 'sceneChange' : this.sampleReason(frameIndex, timestamp, motionScore);
+
+        if (!reason) {
+            return null;
+        }
+
+        this.lastAnalyzedTimestamp = timestamp;
+        return { index: frameIndex, timestamp, reason };
+    }
+
+    private sampleReason(
+        frameIndex: number,
+        timestamp: number,
+        motionScore: number
+    ): AnalyzedFrame['reason'] | null {
+        const { strategy, everyNth, fps, maxFps, motionThreshold, sceneChangeThreshold } = this.options;
+        const sinceLastSample = timestamp - this.lastAnalyzedTimestamp;
+
+        switch (strategy) {
+            case 'everyNth':
+                return frameIndex % Math.max(1, Math.round(everyNth)) === 0 ? 'interval' : null;
+            case 'keyframes':
+                // Always look at the first frame, even if the probe found no keyframes
+                return this.keyframeIndices.has(frameIndex) || frameIndex === 0 ? 'keyframe' : null;
+            case 'adaptive':
+                if (frameIndex > 0 && motionScore >= sceneChangeThreshold) {
+                    return 'sceneChange';
+                }
+                if (motionScore >= motionThreshold && sinceLastSample >= 1000 / maxFps) {
+                    return 'motion';
+                }
+                return sinceLastSample >= 1000 / fps ? 'interval' : null;
+            default:
+                return sinceLastSample >= 1000 / fps ? 'interval' : null;
+        }
+    }
+}
+
+export function validateSamplingOptions(options: FrameSamplingOptions): string | null {
+    const strategies: FrameSamplingStrategy[] = ['everyNth', 'fixedRate', 'keyframes', 'adaptive'];
+
+    if (options.strategy !== undefined && !strategies.includes(options.strategy)) {
+        return `sampling.strategy must be one of: ${strategies.join(', ')}`;
+    }
+
+    const positiveFields: (keyof FrameSamplingOptions)[] = [
+        'everyNth',
+        'fps',
+        'maxFps',
+        'motionThreshold',
+        'sceneChangeThreshold',
+    ];
+
+    for (const field of positiveFields) {
+        const value = options[field];
+        if (value !== undefined && (typeof value !== 'number' || !(value > 0))) {
+            return `sampling.${field} must be a positive number`;
+        }
+    }
+
+    return null;
+}
+
+// Frame indices of the video's keyframes, read with ffprobe without decoding
+// the other frames
+export function probeKeyframeIndices(inputPath: string, fps: number, signal?: AbortSignal): Promise<number[]> {
+    const args = [
+        '-v', 'error',
+        '-select_streams', 'v:0',
+        '-skip_frame', 'nokey',
+        '-show_entries', 'frame=pts_time',
+        '-of', 'csv=p=0',
+        inputPath,
+    ];
+
+    return new Promise((resolve, reject) => {
+        execFile('ffprobe', args, { maxBuffer: 16 * 1024 * 1024, signal }, (error, stdout) => {
+            if (error) {
+                reject(new Error(`ffprobe keyframe scan failed: ${error.message}`));
+                return;
+            }
+
+            const times = stdout
+                .split('\n')
+                .map(line => parseFloat(line))
+                .filter(time => !Number.isNaN(time));
+
+            // Timestamps are relative to the stream start, which the first keyframe marks
+            const start = times.length > 0 ? times.reduce((min, time) => Math.min(min, time), Infinity) : 0;
+            const indices = times.map(time => Math.round((time - start) * fps));
+
+            logger.debug('Keyframes probed', {
+                inputPath,
+                keyframes: indices.length,
+            });
+
+            resolve(indices);
+        });
+    });
+}
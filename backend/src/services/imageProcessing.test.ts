@@ -0,0 +1,102 @@
+jest.mock('../config', () => ({
+    config: { orientationTimeoutSeconds: 30 },
+}));
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { imageProcessingService } from './imageProcessing';
+
+// JPEG segment: marker, then a length that counts itself but not the marker
+function segment(marker: number, payload: Buffer): Buffer {
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(marker, 0);
+    header.writeUInt16BE(payload.length + 2, 2);
+    return Buffer.concat([header, payload]);
+}
+
+// TIFF structure with one IFD0 holding the given tags, each a SHORT value
+function tiff(tags: Record<number, number>, littleEndian = false): Buffer {
+    const entries = Object.entries(tags);
+    const buffer = Buffer.alloc(8 + 2 + entries.length * 12 + 4);
+    const write16 = (value: number, at: number) =>
+        littleEndian ? buffer.writeUInt16LE(value, at) : buffer.writeUInt16BE(value, at);
+    const write32 = (value: number, at: number) =>
+        littleEndian ? buffer.writeUInt32LE(value, at) : buffer.writeUInt32BE(value, at);
+
+    buffer.write(littleEndian ? 'II' : 'MM', 0, 'ascii');
+    write16(42, 2);
+    write32(8, 4);
+    write16(entries.length, 8);
+
+    entries.forEach(([tag, value], index) => {
+        const entry = 10 + index * 12;
+        write16(Number(tag), entry);
+        write16(3, entry + 2); // SHORT
+        write32(1, entry + 4);
+        write16(value, entry + 8);
+    });
+
+    return buffer;
+}
+
+function exif(tags: Record<number, number>, littleEndian = false): Buffer {
+    return segment(0xffe1, Buffer.concat([Buffer.from('Exif\0\0', 'ascii'), tiff(tags, littleEndian)]));
+}
+
+function jpeg(...segments: Buffer[]): Buffer {
+    return Buffer.concat([
+        Buffer.from([0xff, 0xd8]),
+        ...segments,
+        segment(0xffda, Buffer.alloc(10)),
+        Buffer.from([0xff, 0xd9]),
+    ]);
+}
+
+const jfif = segment(0xffe0, Buffer.from('JFIF\0\x01\x01\0\0\x01\0\x01\0\0', 'binary'));
+const ORIENTATION = 0x0112;
+
+describe('readExifOrientation', () => {
+    let dir: string;
+
+    const orientationOf = (bytes: Buffer): number => {
+        const filePath = join(dir, 'photo.jpg');
+        writeFileSync(filePath, bytes);
+        return imageProcessingService.readExifOrientation(filePath);
+    };
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'exif-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('reads the orientation in either byte order', () => {
+        expect(orientationOf(jpeg(exif({ [ORIENTATION]: 6 })))).toBe(6);
+        expect(orientationOf(jpeg(exif({ [ORIENTATION]: 8 }, true)))).toBe(8);
+    });
+
+    it('finds the EXIF block after other segments and among other tags', () => {
+        expect(orientationOf(jpeg(jfif, exif({ 0x010f: 1, [ORIENTATION]: 3, 0x0132: 2 })))).toBe(3);
+    });
+
+    it('is 1 without an EXIF block or orientation tag', () => {
+        expect(orientationOf(jpeg(jfif))).toBe(1);
+        expect(orientationOf(jpeg(exif({ 0x010f: 1 })))).toBe(1);
+    });
+
+    it('is 1 for an orientation outside 1-8', () => {
+        expect(orientationOf(jpeg(exif({ [ORIENTATION]: 9 })))).toBe(1);
+    });
+
+    it('is 1 for files that are not JPEGs or are cut short', () => {
+        expect(orientationOf(Buffer.from('\x89PNG\r\n\x1a\n', 'binary'))).toBe(1);
+        expect(orientationOf(jpeg(exif({ [ORIENTATION]: 6 })).subarray(0, 20))).toBe(1);
+        expect(orientationOf(Buffer.from([0xff, 0xd8]))).toBe(1);
+    });
+});
@@ -0,0 +1,152 @@
+import { closeSync, openSync, readSync, unlinkSync } from 'fs';
+import { parse, join } from 'path';
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export type MediaType = 'video' | 'image';
+
+export type ImageFormat = 'jpg' | 'png' | 'bmp';
+
+// Still images are rendered back to the format they were uploaded in
+export const IMAGE_FORMATS: Record<string, ImageFormat> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/bmp': 'bmp',
+};
+
+export const IMAGE_CONTENT_TYPES: Record<ImageFormat, string> = {
+    jpg: 'image/jpeg',
+    png: 'image/png',
+    bmp: 'image/bmp',
+};
+
+// The EXIF block sits in the first APP1 segment, which is at most 64 KB
+const EXIF_SCAN_BYTES = 128 * 1024;
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// FFmpeg filters that turn an image with the given EXIF orientation upright
+const ORIENTATION_FILTERS: Record<number, string[]> = {
+    2: ['hflip'],
+    3: ['hflip', 'vflip'],
+    4: ['vflip'],
+    5: ['transpose=0'],
+    6: ['transpose=1'],
+    7: ['transpose=3'],
+    8: ['transpose=2'],
+};
+
+class ImageProcessingService {
+    getImageFormat(mimetype: string): ImageFormat | undefined {
+        return IMAGE_FORMATS[mimetype];
+    }
+
+    // Phones store photos sideways and set an EXIF orientation instead of
+    // rotating the pixels. Neither the cascade nor FFmpeg's filters read that
+    // tag, so the pixels are rotated once up front and everything downstream
+    // sees the image the way a viewer does. Returns the path of the upright
+    // image, which is the input itself when no rotation is needed.
+    async normalizeOrientation(inputPath: string, format: ImageFormat): Promise<string> {
+        const orientation = format === 'jpg' ? this.readExifOrientation(inputPath) : 1;
+        const filters = ORIENTATION_FILTERS[orientation];
+
+        if (!filters) {
+            return inputPath;
+        }
+
+        const { dir, name } = parse(inputPath);
+        const outputPath = join(dir, `${name}-upright.${format}`);
+
+        await new Promise<void>((resolve, reject) => {
+            ffmpeg(inputPath, { timeout: config.orientationTimeoutSeconds })
+                .videoFilters(filters)
+                .outputOptions(['-frames:v 1', '-q:v 2', '-map_metadata -1'])
+                .on('error', (error: Error) => {
+                    reject(new Error(`ffmpeg orientation fix failed: ${error.message}`));
+                })
+                .on('end', () => resolve())
+                .save(outputPath);
+        });
+
+        // The rotated copy replaces the upload
+        unlinkSync(inputPath);
+
+        logger.debug('Image orientation normalized', {
+            inputPath,
+            outputPath,
+            orientation,
+        });
+
+        return outputPath;
+    }
+
+    // Orientation (1-8) from the JPEG's EXIF block, 1 when there is none
+    readExifOrientation(inputPath: string): number {
+        const buffer = Buffer.alloc(EXIF_SCAN_BYTES);
+        const fd = openSync(inputPath, 'r');
+        let length: number;
+
+        try {
+            length = readSync(fd, buffer, 0, EXIF_SCAN_BYTES, 0);
+        } finally {
+            closeSync(fd);
+        }
+
+        if (length < 4 || buffer.readUInt16BE(0) !== 0xffd8) {
+            return 1;
+        }
+
+        // Walk the JPEG segments up to the first APP1 (0xFFE1) holding "Exif"
+        let offset = 2;
+        while (offset + 4 <= length) {
+            const marker = buffer.readUInt16BE(offset);
+            const segmentLength = buffer.readUInt16BE(offset + 2);
+
+            if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) {
+                return 1; // corrupt, or image data started without EXIF
+            }
+
+            if (marker === 0xffe1 && buffer.toString('ascii', offset + 4, offset + 8) === 'Exif') {
+                return this.parseTiffOrientation(buffer, offset + 10, Math.min(length, offset + 2 + segmentLength));
+            }
+
+            offset += 2 + segmentLength;
+        }
+
+        return 1;
+    }
+
+    // Looks the orientation tag up in IFD0 of the TIFF structure inside EXIF
+    private parseTiffOrientation(buffer: Buffer, tiffStart: number, end: number): number {
+        if (tiffStart + 8 > end) {
+            return 1;
+        }
+
+        const littleEndian = buffer.toString('ascii', tiffStart, tiffStart + 2) === 'II';
+        const read16 = (at: number) => (littleEndian ? buffer.readUInt16LE(at) : buffer.readUInt16BE(at));
+        const read32 = (at: number) => (littleEndian ? buffer.readUInt32LE(at) : buffer.readUInt32BE(at));
+
+        const ifdStart = tiffStart + read32(tiffStart + 4);
+        if (ifdStart + 2 > end) {
+            return 1;
+        }
+
+        const entries = read16(ifdStart);
+        for (let index = 0; index < entries; index++) {
+            const entry = ifdStart + 2 + index * 12;
+            if (entry + 12 > end) {
+                break;
+            }
+
+            if (read16(entry) === EXIF_ORIENTATION_TAG) {
+                const orientation = read16(entry + 8);
+                return orientation >= 1 && orientation <= 8 ? orientation : 1;
+            }
+        }
+
+        return 1;
+    }
+}
+
+export const imageProcessingService = new ImageProcessingService();
@@ -0,0 +1,25 @@
+// Abort controllers of the running pipeline phases, one per job. Kept apart
+// from the pipeline so removing a job can stop its phase without importing
+// the pipeline, which depends on the cleanup service itself.
+class JobAbortService {
+    private controllers = new Map<string, AbortController>();
+
+    start(fileId: string): AbortSignal {
+        const controller = new AbortController();
+        this.controllers.set(fileId, controller);
+        return controller.signal;
+    }
+
+    // The job may already run its next phase, which has its own controller
+    end(fileId: string, signal: AbortSignal): void {
+        if (this.controllers.get(fileId)?.signal === signal) {
+            this.controllers.delete(fileId);
+        }
+    }
+
+    abort(fileId: string): void {
+        this.controllers.get(fileId)?.abort();
+    }
+}
+
+export const jobAbortService = new JobAbortService();
@@ -0,0 +1,34 @@
+import { join } from 'path';
+import { mkdirSync, renameSync } from 'fs';
+import { config } from '../config';
+
+// Folder under tempDir holding one folder per job
+const JOBS_DIR = 'jobs';
+
+// Every job keeps its upload, outputs, thumbnails and reference photos in a
+// folder of its own. Nothing in tempDir is served directly; files only leave
+// through the job's routes, which check the access token.
+class JobFileService {
+    getJobsRoot(): string {
+        return join(config.tempDir, JOBS_DIR);
+    }
+
+    getJobDir(jobId: string): string {
+        return join(this.getJobsRoot(), jobId);
+    }
+
+    createJobDir(jobId: string): string {
+        const jobDir = this.getJobDir(jobId);
+        mkdirSync(jobDir, { recursive: true });
+        return jobDir;
+    }
+
+    // Moves a file received into tempDir into the job's folder under a new name
+    adopt(jobId: string, filePath: string, name: string): string {
+        const target = join(this.getJobDir(jobId), name);
+        renameSync(filePath, target);
+        return target;
+    }
+}
+
+export const jobFileService = new JobFileService();
@@ -0,0 +1,132 @@
+import {
+    ACTIVE_STATUSES,
+    canStartPhase,
+    canTransition,
+    describeHistory,
+    describeInvalidTransition,
+    JobStatus,
+} from './jobLifecycle';
+
+const ALL_STATUSES: JobStatus[] = [
+    'uploaded',
+    'queued',
+    'processing',
+    'detecting',
+    'reviewing',
+    'rendering',
+    'completed',
+    'failed',
+    'cancelled',
+    'interrupted',
+    'expired',
+];
+
+describe('canTransition', () => {
+    it('lets an uploaded job start any phase but not finish without running', () => {
+        expect(canTransition('uploaded', 'queued')).toBe(true);
+        expect(canTransition('uploaded', 'processing')).toBe(true);
+        expect(canTransition('uploaded', 'detecting')).toBe(true);
+        expect(canTransition('uploaded', 'rendering')).toBe(false);
+        expect(canTransition('uploaded', 'completed')).toBe(false);
+    });
+
+    it('only renders after a review or an earlier run', () => {
+        expect(canTransition('reviewing', 'rendering')).toBe(true);
+        expect(canTransition('completed', 'rendering')).toBe(true);
+        expect(canTransition('detecting', 'rendering')).toBe(false);
+    });
+
+    it('moves a detection to review and a render to completed', () => {
+        expect(canTransition('detecting', 'reviewing')).toBe(true);
+        expect(canTransition('detecting', 'completed')).toBe(false);
+        expect(canTransition('rendering', 'completed')).toBe(true);
+        expect(canTransition('rendering', 'reviewing')).toBe(false);
+    });
+
+    it('cancels and interrupts only active jobs', () => {
+        for (const status of ALL_STATUSES) {
+            const active = ACTIVE_STATUSES.includes(status);
+            expect(canTransition(status, 'cancelled')).toBe(active);
+            expect(canTransition(status, 'interrupted')).toBe(active);
+        }
+    });
+
+    it('fails jobs that are not already done', () => {
+        const done: JobStatus[] = ['failed', 'cancelled', 'interrupted', 'expired'];
+
+        for (const status of ALL_STATUSES) {
+            expect(canTransition(status, 'failed')).toBe(!done.includes(status));
+        }
+    });
+
+    it('expires every job but an expired one', () => {
+        for (const status of ALL_STATUSES) {
+            expect(canTransition(status, 'expired')).toBe(status !== 'expired');
+        }
+    });
+
+    it('keeps an expired job final', () => {
+        for (const status of ALL_STATUSES) {
+            expect(canTransition('expired', status)).toBe(false);
+        }
+    });
+
+    it('lets a finished job run again', () => {
+        for (const status of ['completed', 'failed', 'cancelled', 'interrupted'] as JobStatus[]) {
+            expect(canTransition(status, 'queued')).toBe(true);
+            expect(canTransition(status, 'processing')).toBe(true);
+            expect(canTransition(status, 'detecting')).toBe(true);
+        }
+    });
+});
+
+describe('canStartPhase', () => {
+    it('refuses every active job, including a queued one the table would move on', () => {
+        expect(canTransition('queued', 'processing')).toBe(true);
+
+        for (const status of ACTIVE_STATUSES) {
+            expect(canStartPhase(status, 'processing')).toBe(false);
+            expect(canStartPhase(status, 'detecting')).toBe(false);
+            expect(canStartPhase(status, 'rendering')).toBe(false);
+        }
+    });
+
+    it('follows the table for jobs that are not active', () => {
+        expect(canStartPhase('uploaded', 'detecting')).toBe(true);
+        expect(canStartPhase('uploaded', 'rendering')).toBe(false);
+        expect(canStartPhase('reviewing', 'rendering')).toBe(true);
+        expect(canStartPhase('expired', 'processing')).toBe(false);
+    });
+});
+
+describe('describeInvalidTransition', () => {
+    it('says an active job is already being processed', () => {
+        expect(describeInvalidTransition('rendering', 'detecting')).toBe('File is already being processed (rendering)');
+    });
+
+    it('names both states otherwise', () => {
+        expect(describeInvalidTransition('uploaded', 'rendering')).toBe('A job that is uploaded cannot move to rendering');
+    });
+});
+
+describe('describeHistory', () => {
+    it('reports the last change and every transition as ISO strings', () => {
+        const uploadedAt = new Date('2026-01-01T10:00:00Z');
+        const queuedAt = new Date('2026-01-01T10:01:00Z');
+
+        expect(describeHistory([
+            { from: null, to: 'uploaded', at: uploadedAt },
+            { from: 'uploaded', to: 'queued', at: queuedAt },
+        ])).toEqual({
+            statusChangedAt: '2026-01-01T10:01:00.000Z',
+            statusHistory: [
+                { from: null, to: 'uploaded', at: '2026-01-01T10:00:00.000Z' },
+                { from: 'uploaded', to: 'queued', at: '2026-01-01T10:01:00.000Z' },
+            ],
+        });
+    });
+
+    it('has no change time without history', () => {
+        expect(describeHistory([])).toEqual({ statusChangedAt: null, statusHistory: [] });
+    });
+});
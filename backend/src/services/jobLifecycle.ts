@@ -0,0 +1,70 @@
+// Every state a job can be in, from upload to removal
+export type JobStatus =
+    | 'uploaded' // waiting for the user to start a phase
+    | 'queued' // waiting for a worker
+    | 'processing' // one-shot detection and render
+    | 'detecting'
+    | 'reviewing' // detections are ready to be reviewed
+    | 'rendering'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'interrupted' // the server restarted while the job was running
+    | 'expired'; // its files are deleted, the job is gone
+
+export interface JobTransition {
+    from: JobStatus | null; // null for the job's first state
+    to: JobStatus;
+    at: Date;
+}
+
+// A job that is done, whichever way, can be run again; only an expired job is final
+const TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+    uploaded: ['queued', 'processing', 'detecting', 'failed', 'expired'],
+    queued: ['processing', 'detecting', 'rendering', 'failed', 'cancelled', 'interrupted', 'expired'],
+    processing: ['completed', 'failed', 'cancelled', 'interrupted', 'expired'],
+    detecting: ['reviewing', 'failed', 'cancelled', 'interrupted', 'expired'],
+    reviewing: ['queued', 'processing', 'detecting', 'rendering', 'failed', 'expired'],
+    rendering: ['completed', 'failed', 'cancelled', 'interrupted', 'expired'],
+    completed: ['queued', 'processing', 'detecting', 'rendering', 'failed', 'expired'],
+    failed: ['queued', 'processing', 'detecting', 'rendering', 'expired'],
+    cancelled: ['queued', 'processing', 'detecting', 'rendering', 'expired'],
+    interrupted: ['queued', 'processing', 'detecting', 'rendering', 'expired'],
+    expired: [],
+};
+
+// Detecting, rendering or waiting to do either; work that stops with the process
+export const ACTIVE_STATUSES: JobStatus[] = ['queued', 'processing', 'detecting', 'rendering'];
+
+export function canTransition(from: JobStatus, to: JobStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+}
+
+// Whether a client may start the given phase. Active jobs are refused even
+// where the table allows the move: going from queued to a phase is the queue
+// worker's job, and a second request would queue the job twice
+export function canStartPhase(from: JobStatus, phase: JobStatus): boolean {
+    return !ACTIVE_STATUSES.includes(from) && canTransition(from, phase);
+}
+
+// Why a job can't move to the given state, for the 409 answer of a route
+export function describeInvalidTransition(from: JobStatus, to: JobStatus): string {
+    if (ACTIVE_STATUSES.includes(from)) {
+        return `File is already being processed (${from})`;
+    }
+
+    return `A job that is ${from} cannot move to ${to}`;
+}
+
+// When the job entered its current state and how it got there, for status answers
+export function describeHistory(history: JobTransition[]): {
+    statusChangedAt: string | null;
+    statusHistory: { from: JobStatus | null; to: JobStatus; at: string }[];
+} {
+    const last = history[history.length - 1];
+
+    return {
+        statusChangedAt: last ? last.at.toISOString() : null,
+        statusHistory: history.map(({ from, to, at }) => ({ from, to, at: at.toISOString() })),
+    };
+}
@@ -0,0 +1,297 @@
+import { rmSync } from 'fs';
+import { logger } from '../utils/logger';
+import { cleanupService } from './cleanup';
+import {
+    faceDetectionService,
+    FaceDetectionOptions,
+    FaceDetectionResult,
+    FaceTrack,
+} from './faceDetection';
+import { jobAbortService } from './jobAborts';
+import type { JobStatus } from './jobLifecycle';
+import { jobQueue } from './jobQueue';
+import { manualRegionService } from './manualRegions';
+import { realtimeService } from './realtime';
+import { thumbnailService } from './thumbnails';
+import { videoProcessingService, VideoProcessingOptions } from './videoProcessing';
+
+const RUNNING_STATUSES: JobStatus[] = ['processing', 'detecting', 'rendering'];
+
+// Statuses a phase reaches by finishing its work. Expired jobs count as done
+// since batches keep listing them after their files are gone.
+const FINISHED_STATUSES: JobStatus[] = ['reviewing', 'completed', 'expired'];
+
+// Runs the detect and render phases of a job in the background, keeping the
+// job's status up to date and broadcasting progress. The public methods are
+// started by the job queue and never throw; a failure marks the job failed.
+// Once a job is cancelled its phase writes nothing more to it.
+class JobPipelineService {
+    private progress = new Map<string, number>();
+
+    // One-shot processing: detection takes the first 30%, rendering the rest
+    async processJob(
+        fileId: string,
+        inputPath: string,
+        renderOptions: VideoProcessingOptions,
+        detectionOptions: FaceDetectionOptions
+    ): Promise<void> {
+        const signal = this.startPhase(fileId, 'processing');
+        if (!signal) {
+            return;
+        }
+
+        try {
+            const detection = await this.runDetection(fileId, inputPath, detectionOptions, signal);
+
+            this.broadcastProgress(
+                fileId,
+                30,
+                `Found ${detection.tracks.length} faces in ${detection.analyzedFrames.length} analyzed frames. Starting video processing...`
+            );
+
+            // A reference match is only a guess without a review, so matches
+            // stay blurred unless the request opted in
+            const tracks = detectionOptions.keepReferenceMatches
+                ? detection.tracks.filter(track => !track.referenceId)
+                : detection.tracks;
+
+            await this.runRender(fileId, inputPath, tracks, renderOptions, 30, signal);
+        } catch (error) {
+            this.endWithError(fileId, signal, error);
+        } finally {
+            this.endPhase(fileId, signal);
+        }
+    }
+
+    // First phase of the review workflow; the job waits in 'reviewing' afterwards
+    async detectJob(
+        fileId: string,
+        inputPath: string,
+        detectionOptions: FaceDetectionOptions
+    ): Promise<void> {
+        const signal = this.startPhase(fileId, 'detecting');
+        if (!signal) {
+            return;
+        }
+
+        // A new detection replaces the previous review
+        cleanupService.updateJob(fileId, { detection: undefined, excludedTrackIds: undefined });
+
+        try {
+            const detection = await this.runDetection(fileId, inputPath, detectionOptions, signal);
+
+            this.broadcastProgress(fileId, 90, 'Preparing face thumbnails...');
+
+            // Recorded before generating so an expiring job takes partial thumbnails with it
+            cleanupService.updateJob(fileId, { thumbnailDir: thumbnailService.getThumbnailDir(fileId) });
+            await thumbnailService.generateTrackThumbnails(fileId, inputPath, detection.tracks, signal);
+            signal.throwIfAborted();
+
+            cleanupService.updateJobStatus(fileId, 'reviewing');
+            this.broadcastProgress(
+                fileId,
+                100,
+                `Found ${detection.tracks.length} faces in ${detection.analyzedFrames.length} analyzed frames. Ready for review`
+            );
+        } catch (error) {
+            if (signal.aborted) {
+                thumbnailService.deleteThumbnails(fileId);
+            }
+            this.endWithError(fileId, signal, error);
+        } finally {
+            this.endPhase(fileId, signal);
+        }
+    }
+
+    // Second phase of the review workflow, with the tracks the reviewer kept
+    async renderJob(
+        fileId: string,
+        inputPath: string,
+        tracks: FaceTrack[],
+        renderOptions: VideoProcessingOptions
+    ): Promise<void> {
+        const signal = this.startPhase(fileId, 'rendering');
+        if (!signal) {
+            return;
+        }
+
+        try {
+            await this.runRender(fileId, inputPath, tracks, renderOptions, 0, signal);
+        } catch (error) {
+            this.endWithError(fileId, signal, error);
+        } finally {
+            this.endPhase(fileId, signal);
+        }
+    }
+
+    private getProgress(fileId: string): number {
+        return this.progress.get(fileId) || 0;
+    }
+
+    // 0-100 for a job in the given status. Failed and cancelled jobs are back
+    // at 0, they have no result to show for the progress they made
+    getStatusProgress(fileId: string, status: JobStatus): number {
+        if (RUNNING_STATUSES.includes(status)) {
+            return this.getProgress(fileId);
+        }
+
+        return FINISHED_STATUSES.includes(status) ? 100 : 0;
+    }
+
+    // Takes a waiting job out of the queue or stops the running phase, which
+    // kills its child processes and deletes partial output as it unwinds.
+    // The job is cancelled right away
+    cancel(fileId: string): void {
+        jobQueue.remove(fileId);
+        jobAbortService.abort(fileId);
+        this.progress.delete(fileId);
+
+        cleanupService.updateJobStatus(fileId, 'cancelled');
+
+        logger.info('Processing cancelled', { fileId });
+
+        realtimeService.publish(fileId, {
+            type: 'processingCancelled',
+            data: {
+                fileId,
+                timestamp: new Date().toISOString(),
+            },
+        });
+    }
+
+    // Detects faces and stores the tracks on the job. Tracks matched to a
+    // reference photo start out excluded from blurring
+    private async runDetection(
+        fileId: string,
+        inputPath: string,
+        detectionOptions: FaceDetectionOptions,
+        signal: AbortSignal
+    ): Promise<FaceDetectionResult> {
+        this.broadcastProgress(fileId, 0, 'Starting face detection...');
+
+        const detection = await faceDetectionService.detectFaces(inputPath, detectionOptions, signal);
+        signal.throwIfAborted();
+
+        cleanupService.updateJob(fileId, {
+            detection: {
+                tracks: detection.tracks,
+                identities: detection.identities,
+                sceneCuts: detection.sceneCuts,
+                analyzedFrames: detection.analyzedFrames.length,
+                fps: detection.fps,
+                duration: detection.fps > 0 ? Math.round((detection.framesDecoded / detection.fps) * 1000) : 0,
+                detectedAt: new Date(),
+            },
+            excludedTrackIds: detection.tracks.filter(track => track.referenceId).map(track => track.id),
+        });
+
+        logger.info('Face detection completed', {
+            fileId,
+            facesDetected: detection.faces.length,
+            tracks: detection.tracks.length,
+            identities: detection.identities.length,
+            sceneCuts: detection.sceneCuts.length,
+            referenceMatches: detection.tracks.filter(track => track.referenceId).length,
+            framesAnalyzed: detection.analyzedFrames.length,
+        });
+
+        return detection;
+    }
+
+    // Renders the given tracks plus the job's manual regions, reporting progress
+    // from progressStart up to 100
+    private async runRender(
+        fileId: string,
+        inputPath: string,
+        tracks: FaceTrack[],
+        renderOptions: VideoProcessingOptions,
+        progressStart: number,
+        signal: AbortSignal
+    ): Promise<void> {
+        // Regions drawn by the user are read now so edits made during detection count
+        const manualTracks = manualRegionService.toTracks(manualRegionService.getRegions(fileId));
+        const imageFormat = cleanupService.getJob(fileId)?.imageFormat;
+
+        const outputPath = await videoProcessingService.processVideo(
+            inputPath,
+            [...tracks, ...manualTracks],
+            { ...renderOptions, imageFormat },
+            ({ progress }) => {
+                const totalProgress = progressStart + progress * (100 - progressStart) / 100;
+                this.broadcastProgress(fileId, Math.round(totalProgress), `Processing video... ${progress}%`);
+            },
+            signal
+        );
+
+        // A render that finished just as it was cancelled is thrown away
+        if (signal.aborted) {
+            rmSync(outputPath, { force: true });
+            signal.throwIfAborted();
+        }
+
+        // Update job with completed status
+        cleanupService.updateJobStatus(fileId, 'completed', outputPath);
+
+        this.broadcastProgress(fileId, 100, 'Processing completed!');
+
+        logger.info('Video processing completed successfully', {
+            fileId,
+            outputPath,
+            tracks: tracks.length,
+            manualRegions: manualTracks.length,
+        });
+    }
+
+    // Null when the job can't enter the phase, e.g. it expired while queued
+    private startPhase(fileId: string, status: JobStatus): AbortSignal | null {
+        if (!cleanupService.updateJobStatus(fileId, status)) {
+            return null;
+        }
+
+        return jobAbortService.start(fileId);
+    }
+
+    private endPhase(fileId: string, signal: AbortSignal): void {
+        jobAbortService.end(fileId, signal);
+    }
+
+    // cancel() has already marked a cancelled job and a removed one is gone,
+    // anything else failed
+    private endWithError(fileId: string, signal: AbortSignal, error: unknown): void {
+        if (signal.aborted) {
+            logger.info('Cancelled phase stopped', { fileId });
+            return;
+        }
+
+        this.failJob(fileId, error);
+    }
+
+    private failJob(fileId: string, error: unknown): void {
+        const message = error instanceof Error ? error.message : String(error);
+
+        logger.error('Video processing failed', {
+            fileId,
+            error: message,
+            stack: error instanceof Error ? error.stack : undefined,
+        });
+
+        cleanupService.updateJobStatus(fileId, 'failed');
+        this.broadcastProgress(fileId, 0, `Processing failed: ${message}`);
+    }
+
+    private broadcastProgress(fileId: string, progress: number, message: string): void {
+        this.progress.set(fileId, progress);
+
+        realtimeService.publish(fileId, {
+            type: 'processingProgress',
+            data: {
+                fileId,
+                progress,
+                message,
+                timestamp: new Date().toISOString(),
+            },
+        });
+    }
+}
+
+export const jobPipeline = new JobPipelineService();
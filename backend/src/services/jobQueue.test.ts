@@ -0,0 +1,143 @@
+jest.mock('../config', () => ({
+    config: { processingWorkers: 1, maxQueuedJobs: 3 },
+}));
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+jest.mock('./realtime', () => ({
+    realtimeService: { publish: jest.fn() },
+}));
+
+import { config } from '../config';
+import { realtimeService } from './realtime';
+
+type JobQueue = typeof import('./jobQueue')['jobQueue'];
+
+// A job that runs until the test lets it finish
+function deferredJob(started: string[], fileId: string): { run: () => Promise<void>; done: () => void } {
+    let done!: () => void;
+    const finished = new Promise<void>(resolve => {
+        done = resolve;
+    });
+
+    return {
+        run: () => {
+            started.push(fileId);
+            return finished;
+        },
+        done: () => done(),
+    };
+}
+
+// Lets finished jobs hand their worker to the next one
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('jobQueue', () => {
+    let jobQueue: JobQueue;
+    let started: string[];
+
+    beforeEach(() => {
+        jest.isolateModules(() => {
+            jobQueue = require('./jobQueue').jobQueue;
+        });
+        started = [];
+        config.processingWorkers = 1;
+        config.maxQueuedJobs = 3;
+        jest.mocked(realtimeService.publish).mockClear();
+    });
+
+    it('starts a job right away while a worker is free', () => {
+        const job = deferredJob(started, 'a');
+
+        const { position, finished, error } = jobQueue.enqueue('a', 'normal', job.run);
+
+        expect(position).toBeNull();
+        expect(finished).toBeInstanceOf(Promise);
+        expect(error).toBeUndefined();
+        expect(started).toEqual(['a']);
+    });
+
+    it('starts higher priorities first and equal priorities in order', async () => {
+        const fileIds = ['running', 'low', 'normal-1', 'high', 'normal-2'];
+        const priorities = ['normal', 'low', 'normal', 'high', 'normal'] as const;
+        const jobs = fileIds.map(fileId => deferredJob(started, fileId));
+        config.maxQueuedJobs = 10;
+
+        jobs.forEach((job, index) => jobQueue.enqueue(fileIds[index], priorities[index], job.run));
+
+        expect(jobQueue.getPosition('high')).toBe(1);
+        expect(jobQueue.getPosition('normal-1')).toBe(2);
+        expect(jobQueue.getPosition('normal-2')).toBe(3);
+        expect(jobQueue.getPosition('low')).toBe(4);
+
+        for (const job of jobs) {
+            job.done();
+            await settle();
+        }
+
+        expect(started).toEqual(['running', 'high', 'normal-1', 'normal-2', 'low']);
+    });
+
+    it('runs as many jobs at once as there are workers', async () => {
+        config.processingWorkers = 2;
+        const jobs = ['a', 'b', 'c'].map(fileId => {
+            const job = deferredJob(started, fileId);
+            jobQueue.enqueue(fileId, 'normal', job.run);
+            return job;
+        });
+
+        expect(started).toEqual(['a', 'b']);
+        expect(jobQueue.getStats()).toEqual({ workers: 2, running: 2, waiting: 1, maxWaiting: 3 });
+
+        jobs[1].done();
+        await settle();
+
+        expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    it('refuses jobs once the queue is full', () => {
+        config.maxQueuedJobs = 2;
+        ['running', 'waiting-1', 'waiting-2'].forEach(fileId =>
+            jobQueue.enqueue(fileId, 'normal', deferredJob(started, fileId).run)
+        );
+
+        const { position, finished, error } = jobQueue.enqueue('extra', 'high', deferredJob(started, 'extra').run);
+
+        expect(position).toBeUndefined();
+        expect(finished).toBeUndefined();
+        expect(error).toMatch(/queue is full \(2 jobs waiting\)/);
+        expect(jobQueue.isFull()).toBe(true);
+    });
+
+    it('settles a removed job without running it', async () => {
+        jobQueue.enqueue('running', 'normal', deferredJob(started, 'running').run);
+        const { finished } = jobQueue.enqueue('waiting', 'normal', deferredJob(started, 'waiting').run);
+
+        expect(jobQueue.remove('waiting')).toBe(true);
+        await expect(finished).resolves.toBeUndefined();
+        expect(jobQueue.getPosition('waiting')).toBeNull();
+        expect(jobQueue.remove('running')).toBe(false);
+        expect(started).toEqual(['running']);
+    });
+
+    it('settles a job that failed and moves on', async () => {
+        const { finished } = jobQueue.enqueue('broken', 'normal', () => Promise.reject(new Error('boom')));
+        const next = deferredJob(started, 'next');
+        jobQueue.enqueue('next', 'normal', next.run);
+
+        await expect(finished).resolves.toBeUndefined();
+        await settle();
+
+        expect(started).toEqual(['next']);
+    });
+
+    it('tells waiting jobs their position', () => {
+        jobQueue.enqueue('running', 'normal', deferredJob(started, 'running').run);
+        jobQueue.enqueue('waiting', 'normal', deferredJob(started, 'waiting').run);
+
+        expect(realtimeService.publish).toHaveBeenLastCalledWith('waiting', {
+            type: 'queuePosition',
+            data: expect.objectContaining({ fileId: 'waiting', position: 1, queueLength: 1 }),
+        });
+    });
+});
@@ -0,0 +1,156 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { realtimeService } from './realtime';
+
+export type JobPriority = 'low' | 'normal' | 'high';
+
+export const JOB_PRIORITIES: JobPriority[] = ['low', 'normal', 'high'];
+
+const PRIORITY_RANK: Record<JobPriority, number> = {
+    high: 0,
+    normal: 1,
+    low: 2,
+};
+
+interface QueuedJob {
+    fileId: string;
+    priority: JobPriority;
+    enqueuedAt: Date;
+    run: () => Promise<void>;
+    finish: () => void;
+}
+
+export interface QueueStats {
+    workers: number;
+    running: number;
+    waiting: number;
+    maxWaiting: number;
+}
+
+// Detection and rendering each keep a CPU core busy, so pipeline phases run
+// through this queue with a fixed number of workers. Higher priorities go
+// first, jobs of the same priority in the order they were queued.
+class JobQueueService {
+    private waiting: QueuedJob[] = [];
+    private running: Set<QueuedJob> = new Set();
+
+    // Queues a job, or starts it right away when a worker is free. position is
+    // null once the job runs; finished settles when it is done or removed
+    enqueue(
+        fileId: string,
+        priority: JobPriority,
+        run: () => Promise<void>
+    ): { position?: number | null; finished?: Promise<void>; error?: string } {
+        if (this.isFull()) {
+            return {
+                error: `The processing queue is full (${config.maxQueuedJobs} jobs waiting), please try again later`,
+            };
+        }
+
+        let finish!: () => void;
+        const finished = new Promise<void>(resolve => {
+            finish = resolve;
+        });
+
+        const job: QueuedJob = { fileId, priority, enqueuedAt: new Date(), run, finish };
+        const index = this.waiting.findIndex(other => PRIORITY_RANK[other.priority] > PRIORITY_RANK[priority]);
+
+        if (index === -1) {
+            this.waiting.push(job);
+        } else {
+            this.waiting.splice(index, 0, job);
+        }
+
+        logger.info('Job queued', {
+            fileId,
+            priority,
+            waiting: this.waiting.length,
+            running: this.running.size,
+        });
+
+        this.dispatch();
+        this.broadcastPositions();
+
+        return { position: this.getPosition(fileId), finished };
+    }
+
+    // 1 for the next job to start, null when the job is not waiting
+    getPosition(fileId: string): number | null {
+        const index = this.waiting.findIndex(job => job.fileId === fileId);
+        return index === -1 ? null : index + 1;
+    }
+
+    isFull(): boolean {
+        return this.waiting.length >= config.maxQueuedJobs && this.running.size >= config.processingWorkers;
+    }
+
+    // Takes a job out of the queue before it starts; running jobs are not affected
+    remove(fileId: string): boolean {
+        const index = this.waiting.findIndex(job => job.fileId === fileId);
+
+        if (index === -1) {
+            return false;
+        }
+
+        const [job] = this.waiting.splice(index, 1);
+        job.finish();
+
+        logger.info('Job removed from queue', { fileId });
+
+        this.broadcastPositions();
+        return true;
+    }
+
+    getStats(): QueueStats {
+        return {
+            workers: config.processingWorkers,
+            running: this.running.size,
+            waiting: this.waiting.length,
+            maxWaiting: config.maxQueuedJobs,
+        };
+    }
+
+    private dispatch(): void {
+        while (this.running.size < config.processingWorkers && this.waiting.length > 0) {
+            const job = this.waiting.shift() as QueuedJob;
+            this.running.add(job);
+
+            logger.info('Job started from queue', {
+                fileId: job.fileId,
+                waitedMs: Date.now() - job.enqueuedAt.getTime(),
+            });
+
+            job.run()
+                .catch((error: unknown) => {
+                    logger.error('Queued job failed', {
+                        fileId: job.fileId,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                })
+                .finally(() => {
+                    this.running.delete(job);
+                    job.finish();
+                    this.dispatch();
+                    this.broadcastPositions();
+                });
+        }
+    }
+
+    private broadcastPositions(): void {
+        const timestamp = new Date().toISOString();
+
+        this.waiting.forEach((job, index) => {
+            realtimeService.publish(job.fileId, {
+                type: 'queuePosition',
+                data: {
+                    fileId: job.fileId,
+                    position: index + 1,
+                    queueLength: this.waiting.length,
+                    timestamp,
+                },
+            });
+        });
+    }
+}
+
+export const jobQueue = new JobQueueService();
@@ -0,0 +1,189 @@
+jest.mock('../utils/logger', () => ({
+    logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FileJob } from './cleanup';
+import { createBatchRepository, createJobRepository, JournalRepository } from './jobRepository';
+
+interface Note {
+    id: string;
+    text: string;
+}
+
+const readLines = (filePath: string): unknown[] => readFileSync(filePath, 'utf8')
+    .split('\n')
+    .filter(line => line.length > 0)
+    .map(line => JSON.parse(line));
+
+describe('JournalRepository', () => {
+    let dir: string;
+    let journalPath: string;
+
+    const open = () => new JournalRepository<Note>(journalPath, note => note);
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'penguinblur-journal-'));
+        journalPath = join(dir, 'data', 'notes.journal');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('starts empty and creates the journal folder', () => {
+        expect(open().loadAll()).toEqual([]);
+        expect(existsSync(journalPath)).toBe(true);
+    });
+
+    it('replays saves and removes, the latest save of a record winning', () => {
+        const repository = open();
+        repository.loadAll();
+        repository.save({ id: 'a', text: 'first' });
+        repository.save({ id: 'b', text: 'second' });
+        repository.save({ id: 'a', text: 'changed' });
+        repository.remove('b');
+        repository.save({ id: 'c', text: 'third' });
+
+        expect(open().loadAll()).toEqual([
+            { id: 'a', text: 'changed' },
+            { id: 'c', text: 'third' },
+        ]);
+    });
+
+    it('rewrites the journal with only the live records when loading', () => {
+        const repository = open();
+        repository.loadAll();
+        repository.save({ id: 'a', text: 'first' });
+        repository.save({ id: 'a', text: 'changed' });
+        repository.save({ id: 'b', text: 'gone' });
+        repository.remove('b');
+
+        open().loadAll();
+
+        expect(readLines(journalPath)).toEqual([
+            { type: 'save', record: { id: 'a', text: 'changed' } },
+        ]);
+    });
+
+    it('skips a line cut short by a crash', () => {
+        const repository = open();
+        repository.loadAll();
+        repository.save({ id: 'a', text: 'kept' });
+        appendFileSync(journalPath, '{"type":"save","record":{"id":"b","te');
+
+        expect(open().loadAll()).toEqual([{ id: 'a', text: 'kept' }]);
+    });
+
+    it('compacts once replaced records take up more than 8MB', () => {
+        const repository = open();
+        repository.loadAll();
+        const text = 'x'.repeat(1024 * 1024);
+
+        for (let version = 0; version < 4; version++) {
+            repository.save({ id: 'a', text: `${version}${text}` });
+        }
+
+        // Still appending: every version is in the file
+        expect(readLines(journalPath)).toHaveLength(4);
+
+        for (let version = 4; version < 12; version++) {
+            repository.save({ id: 'a', text: `${version}${text}` });
+        }
+
+        expect(statSync(journalPath).size).toBeLessThan(8 * 1024 * 1024);
+        expect(open().loadAll()).toEqual([{ id: 'a', text: `11${text}` }]);
+    });
+});
+
+describe('createJobRepository', () => {
+    let dir: string;
+    let journalPath: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'penguinblur-journal-'));
+        journalPath = join(dir, 'jobs.journal');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const job = (): FileJob => ({
+        id: 'job-1',
+        filePath: '/data/jobs/job-1/original.mp4',
+        originalName: 'take-1.mp4',
+        mediaType: 'video',
+        createdAt: new Date('2026-01-01T10:00:00Z'),
+        expiresAt: new Date('2026-01-01T10:15:00Z'),
+        status: 'reviewing',
+        statusHistory: [
+            { from: null, to: 'uploaded', at: new Date('2026-01-01T10:00:00Z') },
+            { from: 'uploaded', to: 'reviewing', at: new Date('2026-01-01T10:05:00Z') },
+        ],
+        accessTokenHash: 'hash',
+        detection: {
+            tracks: [{
+                id: 'track-0',
+                startTime: 0,
+                endTime: 1000,
+                keyframes: [],
+                confidence: 0.9,
+                embedding: [0.1, 0.2, 0.3],
+            }],
+            identities: [{ id: 'person-0', trackIds: ['track-0'] }],
+            sceneCuts: [],
+            analyzedFrames: 10,
+            fps: 30,
+            duration: 1000,
+            detectedAt: new Date('2026-01-01T10:05:00Z'),
+        },
+    });
+
+    it('keeps nothing in memory mode', () => {
+        const repository = createJobRepository('memory', journalPath);
+        repository.save(job());
+
+        expect(repository.loadAll()).toEqual([]);
+        expect(existsSync(journalPath)).toBe(false);
+    });
+
+    it('leaves track embeddings out of the journal and revives dates', () => {
+        const repository = createJobRepository('journal', journalPath);
+        repository.loadAll();
+        repository.save(job());
+
+        expect(readFileSync(journalPath, 'utf8')).not.toContain('embedding');
+
+        const [restored] = createJobRepository('journal', journalPath).loadAll();
+        const { embedding, ...track } = job().detection!.tracks[0];
+
+        expect(restored).toEqual({
+            ...job(),
+            detection: { ...job().detection, tracks: [track] },
+        });
+        expect(restored.statusHistory[1].at).toBeInstanceOf(Date);
+    });
+
+    it('keeps batches in their own journal next to the jobs', () => {
+        const batches = createBatchRepository('journal', journalPath);
+        batches.loadAll();
+        batches.save({
+            id: 'batch-1',
+            fileIds: ['job-1'],
+            originalNames: { 'job-1': 'take-1.mp4' },
+            accessTokenHash: 'hash',
+            createdAt: new Date('2026-01-01T10:00:00Z'),
+            fileLifetimeMs: 900000,
+            startedAt: new Date('2026-01-01T10:01:00Z'),
+        });
+
+        const [restored] = createBatchRepository('journal', journalPath).loadAll();
+
+        expect(existsSync(join(dir, 'batches.journal'))).toBe(true);
+        expect(restored.startedAt).toEqual(new Date('2026-01-01T10:01:00Z'));
+        expect(restored.finishedAt).toBeUndefined();
+    });
+});
@@ -0,0 +1,220 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { logger } from '../utils/logger';
+import type { Batch } from './batches';
+import type { FileJob } from './cleanup';
+
+// Where jobs and batches are kept between restarts. Every change is saved as
+// the whole record, so implementations only need to store and replace records.
+export interface Repository<T> {
+    loadAll(): T[];
+    save(record: T): void;
+    remove(id: string): void;
+}
+
+export type JobRepository = Repository<FileJob>;
+export type BatchRepository = Repository<Batch>;
+
+// Keeps nothing across restarts
+export class MemoryRepository<T> implements Repository<T> {
+    loadAll(): T[] {
+        return [];
+    }
+
+    save(): void {}
+
+    remove(): void {}
+}
+
+type JournalEntry<T> =
+    | { type: 'save'; record: T }
+    | { type: 'remove'; id: string };
+
+// Rewrites the journal once it holds this many bytes of replaced or removed
+// records. Counted in bytes since one save can be a single line or megabytes.
+const COMPACT_AFTER_STALE_BYTES = 8 * 1024 * 1024;
+
+// Append-only file with one JSON entry per line. Loading replays the entries
+// and rewrites the journal with just the live records, which also keeps the
+// file small enough to read in one go. A line cut short by a crash is skipped,
+// since only the last write can be incomplete.
+export class JournalRepository<T extends { id: string }> implements Repository<T> {
+    private lines: Map<string, string> = new Map(); // latest save entry of each live record
+    private liveBytes = 0;
+    private journalBytes = 0;
+
+    constructor(
+        private journalPath: string,
+        private revive: (record: T) => T,
+        private toRecord: (record: T) => T = record => record
+    ) {}
+
+    loadAll(): T[] {
+        this.lines.clear();
+        this.liveBytes = 0;
+
+        if (existsSync(this.journalPath)) {
+            const lines = readFileSync(this.journalPath, 'utf8').split('\n');
+
+            lines.forEach((line, index) => {
+                if (!line.trim()) {
+                    return;
+                }
+
+                try {
+                    this.apply(JSON.parse(line), line);
+                } catch (error) {
+                    logger.warn('Skipping unreadable journal entry', {
+                        journalPath: this.journalPath,
+                        line: index + 1,
+                        error: error instanceof Error ? error.message : String(error),
+                    });
+                }
+            });
+        }
+
+        this.compact();
+
+        logger.info('Journal loaded', {
+            journalPath: this.journalPath,
+            records: this.lines.size,
+        });
+
+        return Array.from(this.lines.values()).map(line => this.revive(JSON.parse(line).record));
+    }
+
+    save(record: T): void {
+        this.append({ type: 'save', record: this.toRecord(record) });
+    }
+
+    remove(id: string): void {
+        this.append({ type: 'remove', id });
+    }
+
+    private append(entry: JournalEntry<T>): void {
+        const line = JSON.stringify(entry);
+        this.apply(entry, line);
+
+        try {
+            appendFileSync(this.journalPath, `${line}\n`);
+            this.journalBytes += byteLength(line);
+        } catch (error) {
+            logger.error('Failed to write journal', {
+                journalPath: this.journalPath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        if (this.journalBytes - this.liveBytes > COMPACT_AFTER_STALE_BYTES) {
+            this.compact();
+        }
+    }
+
+    private apply(entry: JournalEntry<T>, line: string): void {
+        if (entry.type === 'save') {
+            this.replaceLine(entry.record.id, line);
+        } else if (entry.type === 'remove') {
+            this.replaceLine(entry.id, undefined);
+        }
+    }
+
+    private replaceLine(id: string, line: string | undefined): void {
+        const previous = this.lines.get(id);
+        if (previous !== undefined) {
+            this.liveBytes -= byteLength(previous);
+        }
+
+        if (line === undefined) {
+            this.lines.delete(id);
+        } else {
+            this.lines.set(id, line);
+            this.liveBytes += byteLength(line);
+        }
+    }
+
+    // Written next to the journal and renamed over it, so a crash leaves
+    // either the old or the new journal
+    private compact(): void {
+        const compactPath = `${this.journalPath}.compact`;
+        const lines = Array.from(this.lines.values())
+            .map(line => `${line}\n`)
+            .join('');
+
+        try {
+            mkdirSync(dirname(this.journalPath), { recursive: true });
+            writeFileSync(compactPath, lines);
+            renameSync(compactPath, this.journalPath);
+            this.journalBytes = this.liveBytes;
+        } catch (error) {
+            logger.error('Failed to compact journal', {
+                journalPath: this.journalPath,
+                error: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+}
+
+// Newline included, as written to the file
+function byteLength(line: string): number {
+    return Buffer.byteLength(line) + 1;
+}
+
+export function createJobRepository(store: 'journal' | 'memory', journalPath: string): JobRepository {
+    return store === 'journal'
+        ? new JournalRepository<FileJob>(journalPath, reviveJob, toJobRecord)
+        : new MemoryRepository<FileJob>();
+}
+
+// Kept next to the job journal
+export function createBatchRepository(store: 'journal' | 'memory', jobJournalPath: string): BatchRepository {
+    return store === 'journal'
+        ? new JournalRepository<Batch>(join(dirname(jobJournalPath), 'batches.journal'), reviveBatch)
+        : new MemoryRepository<Batch>();
+}
+
+// Track embeddings are only needed while detecting and are by far the largest
+// part of a job, a few hundred numbers per track
+function toJobRecord(job: FileJob): FileJob {
+    if (!job.detection) {
+        return job;
+    }
+
+    return {
+        ...job,
+        detection: {
+            ...job.detection,
+            tracks: job.detection.tracks.map(({ embedding, ...track }) => track),
+        },
+    };
+}
+
+// JSON turns dates into strings; these are the ones the job keeps
+function reviveJob(job: FileJob): FileJob {
+    return {
+        ...job,
+        createdAt: new Date(job.createdAt),
+        expiresAt: new Date(job.expiresAt),
+        statusHistory: job.statusHistory.map(transition => ({
+            ...transition,
+            at: new Date(transition.at),
+        })),
+        detection: job.detection && {
+            ...job.detection,
+            detectedAt: new Date(job.detection.detectedAt),
+        },
+        manualRegions: job.manualRegions?.map(region => ({
+            ...region,
+            createdAt: new Date(region.createdAt),
+            updatedAt: new Date(region.updatedAt),
+        })),
+    };
+}
+
+function reviveBatch(batch: Batch): Batch {
+    return {
+        ...batch,
+        createdAt: new Date(batch.createdAt),
+        startedAt: batch.startedAt && new Date(batch.startedAt),
+        finishedAt: batch.finishedAt && new Date(batch.finishedAt),
+    };
+}
@@ -0,0 +1,24 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// Secret handed out once, to whoever uploaded the file. Only its hash is kept
+// on the job or batch, so the job journal is no use for acting on someone
+// else's job.
+export function createJobToken(): { token: string; tokenHash: string } {
+    const token = randomBytes(32).toString('base64url');
+    return { token, tokenHash: hashJobToken(token) };
+}
+
+export function hashJobToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+}
+
+export function verifyJobToken(owned: { accessTokenHash: string }, token: unknown): boolean {
+    if (typeof token !== 'string' || token.length === 0) {
+        return false;
+    }
+
+    const expected = Buffer.from(owned.accessTokenHash, 'hex');
+    const actual = Buffer.from(hashJobToken(token), 'hex');
+
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,234 @@
+import { v4 as uuidv4 } from 'uuid';
+import { cleanupService } from './cleanup';
+import { FaceTrack } from './faceDetection';
+import { logger } from '../utils/logger';
+
+export type RegionShape = 'rectangle' | 'ellipse';
+
+// Position of a manual region at one point in time, in source video pixels
+export interface RegionKeyframe {
+    timestamp: number; // ms
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+// A user-drawn redaction area. x/y/width/height is the box at startTime;
+// keyframes move it later on, and it holds its last box until endTime.
+export interface ManualRegion {
+    id: string;
+    shape: RegionShape;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    startTime: number; // ms
+    endTime: number; // ms
+    keyframes: RegionKeyframe[];
+    label?: string;
+    createdAt: Date;
+    updatedAt: Date;
+}
+
+type RegionInput = Partial<Pick<
+    ManualRegion,
+    'shape' | 'x' | 'y' | 'width' | 'height' | 'startTime' | 'endTime' | 'keyframes' | 'label'
+>>;
+
+const MAX_REGIONS_PER_JOB = 200;
+const MAX_KEYFRAMES_PER_REGION = 500;
+
+class ManualRegionService {
+    getRegions(jobId: string): ManualRegion[] {
+        return cleanupService.getJob(jobId)?.manualRegions || [];
+    }
+
+    createRegion(jobId: string, input: unknown): { region?: ManualRegion; error?: string } {
+        const regions = this.getRegions(jobId);
+
+        if (regions.length >= MAX_REGIONS_PER_JOB) {
+            return { error: `A job can have at most ${MAX_REGIONS_PER_JOB} regions` };
+        }
+
+        const now = new Date();
+        const { region, error } = this.validateRegion({
+            id: uuidv4(),
+            shape: 'rectangle',
+            keyframes: [],
+            createdAt: now,
+            updatedAt: now,
+            ...this.pickInput(input),
+        });
+
+        if (!region) {
+            return { error };
+        }
+
+        cleanupService.updateJob(jobId, { manualRegions: [...regions, region] });
+
+        logger.info('Manual region created', {
+            jobId,
+            regionId: region.id,
+            shape: region.shape,
+        });
+
+        return { region };
+    }
+
+    updateRegion(jobId: string, regionId: string, input: unknown): { region?: ManualRegion; error?: string } {
+        const regions = this.getRegions(jobId);
+        const existing = regions.find(region => region.id === regionId);
+
+        if (!existing) {
+            return {};
+        }
+
+        const { region, error } = this.validateRegion({
+            ...existing,
+            ...this.pickInput(input),
+            updatedAt: new Date(),
+        });
+
+        if (!region) {
+            return { error };
+        }
+
+        cleanupService.updateJob(jobId, {
+            manualRegions: regions.map(current => (current.id === regionId ? region : current)),
+        });
+
+        logger.info('Manual region updated', {
+            jobId,
+            regionId,
+        });
+
+        return { region };
+    }
+
+    deleteRegion(jobId: string, regionId: string): boolean {
+        const regions = this.getRegions(jobId);
+        const remaining = regions.filter(region => region.id !== regionId);
+
+        if (remaining.length === regions.length) {
+            return false;
+        }
+
+        cleanupService.updateJob(jobId, { manualRegions: remaining });
+
+        logger.info('Manual region deleted', {
+            jobId,
+            regionId,
+        });
+
+        return true;
+    }
+
+    // Manual regions are rendered like detected faces, at exactly the drawn size
+    toTracks(regions: ManualRegion[]): FaceTrack[] {
+        return regions.map(region => ({
+            id: `manual-${region.id}`,
+            startTime: region.startTime,
+            endTime: region.endTime,
+            confidence: 1,
+            shape: region.shape,
+            source: 'manual' as const,
+            keyframes: [
+                {
+                    timestamp: region.startTime,
+                    x: region.x,
+                    y: region.y,
+                    width: region.width,
+                    height: region.height,
+                },
+                ...region.keyframes,
+            ].map(keyframe => ({ ...keyframe, confidence: 1 })),
+        }));
+    }
+
+    // Only copy the fields a client may set
+    private pickInput(input: unknown): RegionInput {
+        const body = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+        const fields: (keyof RegionInput)[] = [
+            'shape', 'x', 'y', 'width', 'height', 'startTime', 'endTime', 'keyframes', 'label',
+        ];
+        const picked: Record<string, unknown> = {};
+
+        for (const field of fields) {
+            if (body[field] !== undefined) {
+                picked[field] = body[field];
+            }
+        }
+
+        return picked as RegionInput;
+    }
+
+    private validateRegion(candidate: Partial<ManualRegion>): { region?: ManualRegion; error?: string } {
+        const { shape, startTime, endTime, keyframes, label } = candidate;
+
+        if (shape !== 'rectangle' && shape !== 'ellipse') {
+            return { error: 'shape must be one of: rectangle, ellipse' };
+        }
+
+        const boxError = this.validateBox(candidate, 'region');
+        if (boxError) {
+            return { error: boxError };
+        }
+
+        if (!this.isNonNegative(startTime) || !this.isNonNegative(endTime) || endTime <= startTime) {
+            return { error: 'startTime and endTime must be milliseconds with endTime after startTime' };
+        }
+
+        if (!Array.isArray(keyframes) || keyframes.length > MAX_KEYFRAMES_PER_REGION) {
+            return { error: `keyframes must be an array of at most ${MAX_KEYFRAMES_PER_REGION} entries` };
+        }
+
+        for (const [index, keyframe] of keyframes.entries()) {
+            const keyframeError = this.validateBox(keyframe, `keyframes[${index}]`);
+            if (keyframeError) {
+                return { error: keyframeError };
+            }
+
+            if (!this.isNonNegative(keyframe.timestamp) || keyframe.timestamp < startTime || keyframe.timestamp > endTime) {
+                return { error: `keyframes[${index}].timestamp must be between startTime and endTime` };
+            }
+        }
+
+        if (label !== undefined && (typeof label !== 'string' || label.length > 100)) {
+            return { error: 'label must be a string of at most 100 characters' };
+        }
+
+        return {
+            region: {
+                ...(candidate as ManualRegion),
+                keyframes: keyframes
+                    .map(({ timestamp, x, y, width, height }) => ({ timestamp, x, y, width, height }))
+                    .sort((a, b) => a.timestamp - b.timestamp),
+            },
+        };
+    }
+
+    private validateBox(box: unknown, name: string): string | null {
+        if (typeof box !== 'object' || box === null) {
+            return `${name} must be an object`;
+        }
+
+        const { x, y, width, height } = box as Record<string, unknown>;
+
+        if (!this.isNonNegative(x) || !this.isNonNegative(y)) {
+            return `${name} x and y must be non-negative numbers`;
+        }
+
+        if (!this.isNonNegative(width) || !this.isNonNegative(height) || width === 0 || height === 0) {
+            return `${name} width and height must be positive numbers`;
+        }
+
+        return null;
+    }
+
+    private isNonNegative(value: unknown): value is number {
+        return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    }
+}
+
+export const manualRegionService = new ManualRegionService();
@@ -0,0 +1,135 @@
+import type { WebSocket, WebSocketServer } from 'ws';
+import { logger } from '../utils/logger';
+import { cleanupService } from './cleanup';
+import { canTransition } from './jobLifecycle';
+import { jobPipeline } from './jobPipeline';
+import { verifyJobToken } from './jobTokens';
+
+// Messages a client sends; every one names a job and proves access with its token
+interface ClientCommand {
+    type: 'subscribe' | 'unsubscribe' | 'cancel';
+    fileId: string;
+    token?: string;
+}
+
+const COMMANDS: ClientCommand['type'][] = ['subscribe', 'unsubscribe', 'cancel'];
+
+// Same answer for a wrong token as for a missing job, so ids can't be probed
+const NOT_FOUND = 'File not found or has expired';
+
+// Job events go only to the sockets that subscribed to that job with its
+// access token. Nothing is broadcast to every connection.
+class RealtimeService {
+    private subscribers: Map<string, Set<WebSocket>> = new Map();
+
+    attach(wss: WebSocketServer): void {
+        wss.on('connection', (ws) => {
+            logger.info('New WebSocket connection established');
+
+            ws.on('message', (message) => {
+                this.handleMessage(ws, message.toString());
+            });
+
+            ws.on('close', () => {
+                this.unsubscribeAll(ws);
+                logger.info('WebSocket connection closed');
+            });
+
+            ws.on('error', (error) => {
+                logger.error('WebSocket error', { error });
+            });
+        });
+    }
+
+    // Sends an event to the job's subscribers
+    publish(fileId: string, event: object): void {
+        const sockets = this.subscribers.get(fileId);
+        if (!sockets) {
+            return;
+        }
+
+        const message = JSON.stringify(event);
+
+        sockets.forEach((ws) => {
+            if (ws.readyState === ws.OPEN) {
+                ws.send(message);
+            }
+        });
+    }
+
+    // Called once a job is gone, after its last event was published
+    dropJob(fileId: string): void {
+        this.subscribers.delete(fileId);
+    }
+
+    private handleMessage(ws: WebSocket, raw: string): void {
+        let command: ClientCommand;
+
+        try {
+            command = JSON.parse(raw);
+        } catch (error) {
+            logger.warn('Invalid WebSocket message', { error });
+            this.reply(ws, { type: 'error', message: 'Messages must be JSON' });
+            return;
+        }
+
+        if (!command || !COMMANDS.includes(command.type) || typeof command.fileId !== 'string') {
+            this.reply(ws, {
+                type: 'error',
+                message: `Messages need a type (${COMMANDS.join(', ')}) and a fileId`,
+            });
+            return;
+        }
+
+        const { type, fileId, token } = command;
+
+        if (type === 'unsubscribe') {
+            this.subscribers.get(fileId)?.delete(ws);
+            this.reply(ws, { type: 'unsubscribed', fileId });
+            return;
+        }
+
+        const job = cleanupService.getJob(fileId);
+
+        if (!job || !verifyJobToken(job, token)) {
+            this.reply(ws, { type: 'error', fileId, message: NOT_FOUND });
+            return;
+        }
+
+        if (type === 'subscribe') {
+            if (!this.subscribers.has(fileId)) {
+                this.subscribers.set(fileId, new Set());
+            }
+            this.subscribers.get(fileId)?.add(ws);
+
+            this.reply(ws, { type: 'subscribed', fileId, status: job.status });
+            return;
+        }
+
+        if (!canTransition(job.status, 'cancelled')) {
+            this.reply(ws, { type: 'error', fileId, message: 'File is not currently being processed' });
+            return;
+        }
+
+        // Subscribers hear about it through the processingCancelled event
+        jobPipeline.cancel(fileId);
+        logger.info('Processing cancelled over WebSocket', { fileId });
+    }
+
+    private unsubscribeAll(ws: WebSocket): void {
+        for (const [fileId, sockets] of this.subscribers.entries()) {
+            sockets.delete(ws);
+            if (sockets.size === 0) {
+                this.subscribers.delete(fileId);
+            }
+        }
+    }
+
+    private reply(ws: WebSocket, message: object): void {
+        if (ws.readyState === ws.OPEN) {
+            ws.send(JSON.stringify(message));
+        }
+    }
+}
+
+export const realtimeService = new RealtimeService();
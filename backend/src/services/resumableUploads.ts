@@ -0,0 +1,175 @@
+import { createWriteStream, existsSync, mkdirSync, renameSync, statSync, truncateSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+// An upload sent in chunks, tus-style: the client creates a session, appends
+// chunks at the offset the server reports and finalizes once all bytes are in.
+// A dropped connection only loses the chunk in flight.
+export interface UploadSession {
+    id: string;
+    originalName: string;
+    mimetype: string;
+    size: number; // bytes announced at creation
+    offset: number; // bytes received so far
+    partPath: string;
+    accessTokenHash: string; // sha256 of the session token, handed out at creation
+    createdAt: Date;
+    expiresAt: Date; // pushed back by every chunk
+    isWriting: boolean; // a chunk is being received
+}
+
+class ResumableUploadService {
+    private sessions: Map<string, UploadSession> = new Map();
+
+    createSession(
+        uploadDir: string,
+        originalName: string,
+        mimetype: string,
+        size: number,
+        idleTimeoutMs: number,
+        accessTokenHash: string
+    ): UploadSession {
+        this.pruneExpired();
+
+        if (!existsSync(uploadDir)) {
+            mkdirSync(uploadDir, { recursive: true });
+        }
+
+        const now = new Date();
+        const id = uuidv4();
+        const session: UploadSession = {
+            id,
+            originalName,
+            mimetype,
+            size,
+            offset: 0,
+            partPath: join(uploadDir, `${id}.part`),
+            accessTokenHash,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + idleTimeoutMs),
+            isWriting: false,
+        };
+
+        // Created up front, so a missing part file means it was cleaned up
+        writeFileSync(session.partPath, '');
+        this.sessions.set(id, session);
+
+        logger.info('Upload session created', {
+            uploadId: id,
+            originalName,
+            size,
+        });
+
+        return session;
+    }
+
+    // Sessions whose part file was cleaned up as an orphan are gone as well
+    getSession(uploadId: string): UploadSession | undefined {
+        const session = this.sessions.get(uploadId);
+
+        if (session && !session.isWriting && (new Date() > session.expiresAt || !existsSync(session.partPath))) {
+            this.removeSession(uploadId);
+            return undefined;
+        }
+
+        return session;
+    }
+
+    // Appends the chunk to the part file. Whatever arrived before a broken
+    // connection is kept, and the returned offset is where the client resumes
+    async appendChunk(
+        session: UploadSession,
+        chunk: NodeJS.ReadableStream,
+        idleTimeoutMs: number
+    ): Promise<{ offset: number; error?: string }> {
+        const remaining = session.size - session.offset;
+        let received = 0;
+
+        const guard = new Transform({
+            transform(data: Buffer, encoding, callback) {
+                received += data.length;
+                if (received > remaining) {
+                    callback(new Error('Chunk goes past the announced upload size'));
+                    return;
+                }
+                callback(null, data);
+            },
+        });
+
+        session.isWriting = true;
+
+        try {
+            await pipeline(chunk, guard, createWriteStream(session.partPath, { flags: 'a' }));
+            return { offset: this.syncOffset(session, idleTimeoutMs) };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            logger.warn('Upload chunk interrupted', {
+                uploadId: session.id,
+                error: message,
+            });
+
+            return { offset: this.syncOffset(session, idleTimeoutMs), error: message };
+        } finally {
+            session.isWriting = false;
+        }
+    }
+
+    // Moves the complete upload to its final name and forgets the session
+    completeSession(session: UploadSession, filePath: string): void {
+        renameSync(session.partPath, filePath);
+        this.sessions.delete(session.id);
+
+        logger.info('Upload session completed', {
+            uploadId: session.id,
+            filePath,
+            size: session.size,
+        });
+    }
+
+    removeSession(uploadId: string): void {
+        const session = this.sessions.get(uploadId);
+        if (!session) {
+            return;
+        }
+
+        try {
+            if (existsSync(session.partPath)) {
+                unlinkSync(session.partPath);
+            }
+        } catch (error) {
+            logger.error('Failed to delete upload part', { partPath: session.partPath, error });
+        }
+
+        this.sessions.delete(uploadId);
+        logger.info('Upload session removed', { uploadId });
+    }
+
+    // The part file is the source of truth for the offset; bytes past the
+    // announced size are cut off
+    private syncOffset(session: UploadSession, idleTimeoutMs: number): number {
+        const written = existsSync(session.partPath) ? statSync(session.partPath).size : 0;
+
+        if (written > session.size) {
+            truncateSync(session.partPath, session.size);
+        }
+
+        session.offset = Math.min(written, session.size);
+        session.expiresAt = new Date(Date.now() + idleTimeoutMs);
+        return session.offset;
+    }
+
+    private pruneExpired(): void {
+        const now = new Date();
+
+        for (const session of Array.from(this.sessions.values())) {
+            if (now > session.expiresAt && !session.isWriting) {
+                this.removeSession(session.id);
+            }
+        }
+    }
+}
+
+export const resumableUploadService = new ResumableUploadService();
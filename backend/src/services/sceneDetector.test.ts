@@ -0,0 +1,86 @@
+import { SceneCutDetector, validateSceneDetectionOptions } from './sceneDetector';
+
+// Small BGR frame of one colour
+function solidFrame(blue: number, green: number, red: number, pixels = 16): Buffer {
+    const frame = Buffer.alloc(pixels * 3);
+
+    for (let offset = 0; offset < frame.length; offset += 3) {
+        frame[offset] = blue;
+        frame[offset + 1] = green;
+        frame[offset + 2] = red;
+    }
+
+    return frame;
+}
+
+const dark = solidFrame(10, 10, 10);
+const bright = solidFrame(240, 240, 240);
+
+describe('SceneCutDetector', () => {
+    it('finds no cut in an unchanging shot', () => {
+        const detector = new SceneCutDetector();
+
+        for (let index = 0; index < 10; index++) {
+            expect(detector.observe(index, index * 40, dark)).toBeNull();
+        }
+        expect(detector.getCuts()).toEqual([]);
+    });
+
+    it('reports the first frame of a new shot', () => {
+        const detector = new SceneCutDetector();
+
+        detector.observe(0, 0, dark);
+        detector.observe(1, 40, dark);
+
+        expect(detector.observe(2, 80, bright)).toEqual({ index: 2, timestamp: 80, score: 1 });
+        expect(detector.getCuts()).toEqual([{ index: 2, timestamp: 80, score: 1 }]);
+    });
+
+    it('ignores where things are in the frame', () => {
+        const detector = new SceneCutDetector();
+        const left = Buffer.concat([solidFrame(10, 10, 10, 8), solidFrame(240, 240, 240, 8)]);
+        const right = Buffer.concat([solidFrame(240, 240, 240, 8), solidFrame(10, 10, 10, 8)]);
+
+        detector.observe(0, 0, left);
+
+        expect(detector.observe(1, 40, right)).toBeNull();
+    });
+
+    it('ignores cuts closer together than minSceneMs', () => {
+        const detector = new SceneCutDetector({ minSceneMs: 500 });
+
+        detector.observe(0, 0, dark);
+        expect(detector.observe(1, 1000, bright)).not.toBeNull();
+        expect(detector.observe(2, 1200, dark)).toBeNull();
+        expect(detector.observe(3, 1600, bright)).not.toBeNull();
+        expect(detector.getCuts().map(cut => cut.index)).toEqual([1, 3]);
+    });
+
+    it('only cuts on a change above the threshold', () => {
+        const halfChanged = Buffer.concat([solidFrame(10, 10, 10, 8), solidFrame(240, 240, 240, 8)]);
+
+        const strict = new SceneCutDetector({ threshold: 0.6 });
+        strict.observe(0, 0, dark);
+        expect(strict.observe(1, 1000, halfChanged)).toBeNull();
+
+        const loose = new SceneCutDetector({ threshold: 0.4 });
+        loose.observe(0, 0, dark);
+        expect(loose.observe(1, 1000, halfChanged)?.score).toBe(0.5);
+    });
+});
+
+describe('validateSceneDetectionOptions', () => {
+    it('accepts the defaults and values in range', () => {
+        expect(validateSceneDetectionOptions({})).toBeNull();
+        expect(validateSceneDetectionOptions({ threshold: 1, minSceneMs: 0 })).toBeNull();
+    });
+
+    it('rejects a threshold outside 0-1', () => {
+        expect(validateSceneDetectionOptions({ threshold: 0 })).toBe('sceneDetection.threshold must be a number between 0 and 1');
+        expect(validateSceneDetectionOptions({ threshold: 1.5 })).toBe('sceneDetection.threshold must be a number between 0 and 1');
+    });
+
+    it('rejects a negative minSceneMs', () => {
+        expect(validateSceneDetectionOptions({ minSceneMs: -1 })).toBe('sceneDetection.minSceneMs must be a non-negative number');
+    });
+});
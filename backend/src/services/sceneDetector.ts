@@ -0,0 +1,101 @@
+export interface SceneDetectionOptions {
+    threshold?: number; // 0-1, histogram distance between consecutive frames that counts as a cut
+    minSceneMs?: number; // cuts closer together than this are ignored, e.g. camera flashes
+}
+
+export interface SceneCut {
+    index: number; // first frame of the new shot
+    timestamp: number; // ms
+    score: number; // histogram distance that triggered the cut, 0-1
+}
+
+const DEFAULT_SCENE_DETECTION: Required<SceneDetectionOptions> = {
+    threshold: 0.5,
+    minSceneMs: 500,
+};
+
+// Bins per colour channel of the frame histogram
+const BINS_PER_CHANNEL = 16;
+
+// Finds hard cuts by comparing colour histograms of consecutive frames. A
+// histogram ignores where things are in the frame, so camera moves and people
+// walking barely change it while a cut to another shot does.
+// One detector is created per detection run since it keeps the previous frame.
+export class SceneCutDetector {
+    private readonly options: Required<SceneDetectionOptions>;
+    private previousHistogram: number[] | null = null;
+    private lastCutTimestamp = -Infinity;
+    private readonly cuts: SceneCut[] = [];
+
+    constructor(options: SceneDetectionOptions = {}) {
+        this.options = { ...DEFAULT_SCENE_DETECTION, ...options };
+    }
+
+    // pixels holds interleaved 8-bit channel values, e.g. a small BGR thumbnail
+    observe(frameIndex: number, timestamp: number, pixels: Buffer, channels = 3): SceneCut | null {
+        const histogram = buildHistogram(pixels, channels);
+        const previous = this.previousHistogram;
+        this.previousHistogram = histogram;
+
+        if (!previous) {
+            return null;
+        }
+
+        const score = histogramDistance(previous, histogram);
+
+        if (score < this.options.threshold || timestamp - this.lastCutTimestamp < this.options.minSceneMs) {
+            return null;
+        }
+
+        const cut = { index: frameIndex, timestamp, score: Math.round(score * 1000) / 1000 };
+        this.lastCutTimestamp = timestamp;
+        this.cuts.push(cut);
+        return cut;
+    }
+
+    getCuts(): SceneCut[] {
+        return [...this.cuts];
+    }
+}
+
+export function validateSceneDetectionOptions(options: SceneDetectionOptions): string | null {
+    const { threshold, minSceneMs } = options;
+
+    if (threshold !== undefined && (typeof threshold !== 'number' || threshold <= 0 || threshold > 1)) {
+        return 'sceneDetection.threshold must be a number between 0 and 1';
+    }
+
+    if (minSceneMs !== undefined && (typeof minSceneMs !== 'number' || minSceneMs < 0)) {
+        return 'sceneDetection.minSceneMs must be a non-negative number';
+    }
+
+    return null;
+}
+
+// Normalized per-channel histograms, concatenated
+function buildHistogram(pixels: Buffer, channels: number): number[] {
+    const histogram = new Array<number>(BINS_PER_CHANNEL * channels).fill(0);
+    const binWidth = 256 / BINS_PER_CHANNEL;
+    const pixelCount = Math.floor(pixels.length / channels);
+
+    for (let offset = 0; offset < pixelCount * channels; offset += channels) {
+        for (let channel = 0; channel < channels; channel++) {
+            histogram[channel * BINS_PER_CHANNEL + Math.floor(pixels[offset + channel] / binWidth)]++;
+        }
+    }
+
+    return pixelCount > 0 ? histogram.map(count => count / pixelCount) : histogram;
+}
+
+// Half the L1 distance averaged over channels: 0 for identical histograms,
+// 1 when no bin overlaps
+function histogramDistance(a: number[], b: number[]): number {
+    const channels = a.length / BINS_PER_CHANNEL;
+    let distance = 0;
+
+    for (let index = 0; index < a.length; index++) {
+        distance += Math.abs(a[index] - b[index]);
+    }
+
+    return distance / (2 * channels);
+}
@@ -0,0 +1,151 @@
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync } from 'fs';
+import ffmpeg from 'fluent-ffmpeg';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { FaceTrack, TrackKeyframe } from './faceDetection';
+import { jobFileService } from './jobFiles';
+import { videoProcessingService } from './videoProcessing';
+
+// Longest side of a thumbnail in pixels
+const THUMBNAIL_SIZE = 160;
+
+// Margin around the face box, as a share of its size, so the crop shows more
+// than eyes and nose
+const THUMBNAIL_MARGIN = 0.3;
+
+class ThumbnailService {
+    // Inside the job's folder, so removing the job removes its thumbnails
+    getThumbnailDir(jobId: string): string {
+        return join(jobFileService.getJobDir(jobId), 'thumbnails');
+    }
+
+    getThumbnailPath(jobId: string, trackId: string): string {
+        return join(this.getThumbnailDir(jobId), `${trackId}.jpg`);
+    }
+
+    // One crop per track, from the keyframe the detector was most sure about.
+    // A failed crop is logged and skipped; the rest of the gallery still works.
+    // Aborting the signal kills the running ffmpeg or ffprobe and stops the loop.
+    async generateTrackThumbnails(
+        jobId: string,
+        inputPath: string,
+        tracks: FaceTrack[],
+        signal?: AbortSignal
+    ): Promise<string> {
+        const thumbnailDir = this.getThumbnailDir(jobId);
+
+        // Thumbnails from an earlier detection may belong to other track ids
+        this.deleteThumbnails(jobId);
+        mkdirSync(thumbnailDir, { recursive: true });
+
+        if (tracks.length === 0) {
+            return thumbnailDir;
+        }
+
+        const metadata = await videoProcessingService.getVideoMetadata(inputPath, signal);
+        let generated = 0;
+
+        for (const track of tracks) {
+            signal?.throwIfAborted();
+            const keyframe = this.bestKeyframe(track);
+
+            try {
+                await this.extractCrop(
+                    inputPath,
+                    this.getThumbnailPath(jobId, track.id),
+                    keyframe,
+                    metadata.width,
+                    metadata.height,
+                    signal
+                );
+                generated++;
+            } catch (error) {
+                if (signal?.aborted) {
+                    throw error;
+                }
+                logger.error('Failed to create track thumbnail', {
+                    jobId,
+                    trackId: track.id,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        logger.info('Track thumbnails created', {
+            jobId,
+            tracks: tracks.length,
+            generated,
+        });
+
+        return thumbnailDir;
+    }
+
+    deleteThumbnails(jobId: string): void {
+        const thumbnailDir = this.getThumbnailDir(jobId);
+
+        try {
+            if (existsSync(thumbnailDir)) {
+                rmSync(thumbnailDir, { recursive: true, force: true });
+                logger.debug('Thumbnails deleted', { thumbnailDir });
+            }
+        } catch (error) {
+            logger.error('Failed to delete thumbnails', { thumbnailDir, error });
+        }
+    }
+
+    private bestKeyframe(track: FaceTrack): TrackKeyframe {
+        return track.keyframes.reduce((best, keyframe) =>
+            keyframe.confidence > best.confidence ? keyframe : best
+        );
+    }
+
+    private extractCrop(
+        inputPath: string,
+        outputPath: string,
+        keyframe: TrackKeyframe,
+        frameWidth: number,
+        frameHeight: number,
+        signal?: AbortSignal
+    ): Promise<void> {
+        const marginX = keyframe.width * THUMBNAIL_MARGIN;
+        const marginY = keyframe.height * THUMBNAIL_MARGIN;
+        const x = Math.max(0, Math.floor(keyframe.x - marginX));
+        const y = Math.max(0, Math.floor(keyframe.y - marginY));
+        const width = Math.min(frameWidth - x, Math.ceil(keyframe.width + marginX * 2));
+        const height = Math.min(frameHeight - y, Math.ceil(keyframe.height + marginY * 2));
+
+        return new Promise((resolve, reject) => {
+            const command = ffmpeg(inputPath, { timeout: config.thumbnailTimeoutSeconds });
+            const onAbort = () => command.kill('SIGKILL');
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            command
+                .seekInput(keyframe.timestamp / 1000)
+                .frames(1)
+                .videoFilters([
+                    `crop=${width}:${height}:${x}:${y}`,
+                    `scale=${THUMBNAIL_SIZE}:${THUMBNAIL_SIZE}:force_original_aspect_ratio=decrease`,
+                ])
+                .outputOptions(['-q:v 3'])
+                .on('start', () => {
+                    // Aborted while fluent-ffmpeg was still preparing, before there was a process to kill
+                    if (signal?.aborted) {
+                        onAbort();
+                    }
+                })
+                .on('error', (error: Error) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(new Error(`ffmpeg thumbnail failed: ${error.message}`));
+                })
+                .on('end', () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                })
+                .save(outputPath);
+        });
+    }
+}
+
+export const thumbnailService = new ThumbnailService();
@@ -1,15 +1,91 @@
-import { join } from 'path';
+import { execFile } from 'child_process';
+import { dirname, join } from 'path';
 import { existsSync, unlinkSync } from 'fs';
+import ffmpeg, { FfprobeData, FfprobeStream } from 'fluent-ffmpeg';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
 import { logger } from '../utils/logger';
-import { DetectedFace } from './faceDetection';
+import { FaceTrack, TrackKeyframe, faceDetectionService } from './faceDetection';
+import type { RegionShape } from './manualRegions';
+import type { ImageFormat } from './imageProcessing';
+
+// Keyframes per render segment; longer tracks are split so the position
+// expressions FFmpeg evaluates every frame stay short
+const SEGMENT_KEYFRAMES = 8;
+
+// Seconds a crop branch runs past the end of its segment. trim's end is
+// exclusive while the overlay's enable range is not, so the padding makes
+// sure the last frame is still obscured; enable does the exact gating
+const TRIM_PADDING = 0.1;
+
+// Encoder settings for still images, keyed by output extension. Metadata is
+// dropped so EXIF location and camera details do not leak with the redaction
+const IMAGE_OUTPUT_OPTIONS: Record<ImageFormat, string[]> = {
+    jpg: ['-frames:v 1', '-q:v 2', '-map_metadata -1'],
+    png: ['-frames:v 1', '-map_metadata -1'],
+    bmp: ['-frames:v 1', '-map_metadata -1'],
+};
+
+// Makes everything outside the ellipse inscribed in a crop transparent
+const ELLIPSE_MASK_FILTER =
+    "format=yuva420p,geq=lum='lum(X,Y)':cb='cb(X,Y)':cr='cr(X,Y)':" +
+    "a='if(lte(pow(2*X/W-1,2)+pow(2*Y/H-1,2),1),255,0)'";
+
+// Penguin stickers used by the mask obscure style
+const PENGUIN_STICKER_DIR = join(__dirname, '../../assets/penguins');
+export const PENGUIN_STICKERS: Record<string, string> = {
+    classic: 'penguin-classic.png',
+    scarf: 'penguin-scarf.png',
+    beanie: 'penguin-beanie.png',
+};
+
+export type ObscureStyle = 'gaussian' | 'pixelate' | 'solid' | 'mask';
+
+export const OBSCURE_STYLES: ObscureStyle[] = ['gaussian', 'pixelate', 'solid', 'mask'];
 
 export interface VideoProcessingOptions {
     blurIntensity?: 'low' | 'medium' | 'high';
+    obscureStyle?: ObscureStyle;
+    color?: string; // solid: '#RRGGBB'
+    pixelSize?: number; // pixelate: block size in pixels, defaults by intensity
+    sticker?: string; // mask: one of PENGUIN_STICKERS, defaults to a penguin per face
     outputFormat?: 'mp4' | 'webm';
+    imageFormat?: ImageFormat; // set for still images, rendered to one image of this format
     quality?: 'low' | 'medium' | 'high';
     frameRate?: number;
 }
 
+export interface VideoMetadata {
+    duration: number; // seconds
+    width: number; // as displayed, after the stream's rotation
+    height: number;
+    fps: number;
+    bitrate: number;
+    codec: string;
+    format: string;
+    size: number;
+    hasAudio: boolean;
+}
+
+interface BlurConfig {
+    blurRadius: number;
+    sigma: number;
+    pixelationLevel: number;
+}
+
+// Part of a face track drawn with one fixed-size box. x and y are FFmpeg
+// expressions of t that follow the track; visible between start and end (seconds)
+interface RenderSegment {
+    trackId: string;
+    shape: RegionShape;
+    x: string;
+    y: string;
+    width: number;
+    height: number;
+    start: number;
+    end: number;
+}
+
 export interface ProcessingProgress {
     progress: number;
     message: string;
@@ -17,24 +93,22 @@ export interface ProcessingProgress {
 }
 
 class VideoProcessingService {
-    private ffmpeg: any; // FFmpeg instance
-
-    constructor() {
-        // Initialize FFmpeg (placeholder - would require actual fluent-ffmpeg)
-        this.ffmpeg = null;
-    }
-
     async processVideo(
         inputPath: string,
-        faces: DetectedFace[],
-        blurIntensity: string = 'medium',
-        onProgress?: (progress: ProcessingProgress) => void
+        tracks: FaceTrack[],
+        options: VideoProcessingOptions = {},
+        onProgress?: (progress: ProcessingProgress) => void,
+        signal?: AbortSignal // aborting kills ffmpeg and deletes the partial output
     ): Promise<string> {
+        const blurIntensity = options.blurIntensity || 'medium';
+        const obscureStyle = options.obscureStyle || 'gaussian';
+
         try {
             logger.info('Starting video processing', {
                 inputPath,
-                facesCount: faces.length,
+                tracksCount: tracks.length,
                 blurIntensity,
+                obscureStyle,
             });
 
             // Validate input file exists
@@ -43,113 +117,421 @@ class VideoProcessingService {
             }
 
             // Generate output path
-            const outputPath = this.generateOutputPath(inputPath);
+            const outputPath = this.generateOutputPath(inputPath, options.imageFormat || 'mp4');
 
             // Configure blur parameters based on intensity
             const blurConfig = this.getBlurConfig(blurIntensity);
 
-            // Process video with face blurring
-            await this.processVideoWithBlur(
-                inputPath,
-                outputPath,
-                faces,
-                blurConfig,
-                onProgress
-            );
+            switch (obscureStyle) {
+                case 'pixelate':
+                    await this.applyPixelationBlur(
+                        inputPath,
+                        outputPath,
+                        tracks,
+                        options.pixelSize || blurConfig.pixelationLevel,
+                        onProgress,
+                        signal
+                    );
+                    break;
+                case 'solid':
+                    await this.applySolidObscure(inputPath, outputPath, tracks, options.color, onProgress, signal);
+                    break;
+                case 'mask': {
+                    const maskPath = options.sticker
+                        ? join(PENGUIN_STICKER_DIR, PENGUIN_STICKERS[options.sticker])
+                        : undefined;
+                    await this.applyMaskObscure(inputPath, outputPath, tracks, maskPath, onProgress, signal);
+                    break;
+                }
+                default:
+                    await this.applyGaussianBlur(
+                        inputPath,
+                        outputPath,
+                        tracks,
+                        blurConfig.blurRadius,
+                        blurConfig.sigma,
+                        onProgress,
+                        signal
+                    );
+                    break;
+            }
 
             logger.info('Video processing completed successfully', {
                 inputPath,
                 outputPath,
-                facesProcessed: faces.length,
+                tracksProcessed: tracks.length,
                 blurIntensity,
+                obscureStyle,
             });
 
             return outputPath;
         } catch (error) {
+            if (signal?.aborted) {
+                logger.info('Video processing cancelled', { inputPath });
+                throw error;
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
             logger.error('Video processing failed', {
                 inputPath,
-                error: error.message,
-                stack: error.stack,
+                error: message,
+                stack: error instanceof Error ? error.stack : undefined,
             });
-            throw new Error(`Video processing failed: ${error.message}`);
+            throw new Error(`Video processing failed: ${message}`);
         }
     }
 
-    private async processVideoWithBlur(
+    // Renders the filter graph (ending in [vout]) to an mp4 that keeps the
+    // input's resolution, frame timing and audio, or to a single image when
+    // the output path has an image extension
+    private runFfmpeg(
         inputPath: string,
         outputPath: string,
-        faces: DetectedFace[],
-        blurConfig: any,
-        onProgress?: (progress: ProcessingProgress) => void
+        filterGraph: string[],
+        extraInputs: string[],
+        metadata: VideoMetadata,
+        onProgress?: (progress: ProcessingProgress) => void,
+        signal?: AbortSignal
     ): Promise<void> {
         return new Promise((resolve, reject) => {
-            try {
-                // Simulate video processing with progress updates
-                // In production, this would use actual FFmpeg with filters
-                let progress = 0;
+            if (signal?.aborted) {
+                reject(new Error('Rendering was cancelled'));
+                return;
+            }
 
-                const progressInterval = setInterval(() => {
-                    progress += 2; // Increment progress
+            // Kill a render that has not finished in time
+            const command = ffmpeg(inputPath, { timeout: config.renderTimeoutSeconds });
+            const imageFormat = outputPath.split('.').pop() as ImageFormat;
+            const onAbort = () => command.kill('SIGKILL');
+
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            for (const extraInput of extraInputs) {
+                command.input(extraInput);
+            }
+
+            command
+                .complexFilter(filterGraph, 'vout')
+                .outputOptions(IMAGE_OUTPUT_OPTIONS[imageFormat] || [
+                    '-map 0:a?',
+                    '-c:v libx264',
+                    '-preset fast',
+                    '-crf 20',
+                    '-pix_fmt yuv420p',
+                    '-c:a aac',
+                    '-fps_mode passthrough',
+                    '-movflags +faststart',
+                ])
+                .on('start', (commandLine: string) => {
+                    logger.debug('FFmpeg started', { commandLine });
+
+                    // Aborted while fluent-ffmpeg was still preparing, before there was a process to kill
+                    if (signal?.aborted) {
+                        onAbort();
+                    }
+                })
+                .on('progress', (ffmpegProgress: { percent?: number; timemark?: string }) => {
+                    if (!onProgress) {
+                        return;
+                    }
+
+                    const progress = this.calculateProgress(ffmpegProgress, metadata.duration);
+                    onProgress({
+                        progress,
+                        message: this.getProgressMessage(progress),
+                        timestamp: Date.now(),
+                    });
+                })
+                .on('error', (error: Error, stdout: string | null, stderr: string | null) => {
+                    signal?.removeEventListener('abort', onAbort);
+                    this.deleteFileIfExists(outputPath);
+
+                    if (signal?.aborted) {
+                        logger.info('FFmpeg killed, rendering was cancelled', { inputPath, outputPath });
+                        reject(new Error('Rendering was cancelled'));
+                        return;
+                    }
+
+                    logger.error('FFmpeg processing failed', {
+                        inputPath,
+                        error: error.message,
+                        stderr,
+                    });
+                    reject(new Error(`ffmpeg failed: ${error.message}`));
+                })
+                .on('end', () => {
+                    signal?.removeEventListener('abort', onAbort);
 
                     if (onProgress) {
                         onProgress({
-                            progress: Math.min(progress, 95),
-                            message: this.getProgressMessage(progress),
+                            progress: 100,
+                            message: 'Processing completed!',
                             timestamp: Date.now(),
                         });
                     }
+                    resolve();
+                })
+                .save(outputPath);
+        });
+    }
 
-                    if (progress >= 95) {
-                        clearInterval(progressInterval);
-                        this.finalizeVideoProcessing(inputPath, outputPath, faces, blurConfig)
-                            .then(() => {
-                                if (onProgress) {
-                                    onProgress({
-                                        progress: 100,
-                                        message: 'Processing completed!',
-                                        timestamp: Date.now(),
-                                    });
-                                }
-                                resolve();
-                            })
-                            .catch(reject);
-                    }
-                }, 200); // Update every 200ms
+    // Split every track into segments of at most SEGMENT_KEYFRAMES keyframes;
+    // neighbouring segments share a keyframe so the box never jumps
+    private buildRenderSegments(tracks: FaceTrack[], metadata: VideoMetadata): RenderSegment[] {
+        const segments: RenderSegment[] = [];
+
+        for (const track of faceDetectionService.tracksToBlurRegions(tracks)) {
+            const { keyframes } = track;
+
+            for (let first = 0; first < keyframes.length; first += SEGMENT_KEYFRAMES - 1) {
+                const chunk = keyframes.slice(first, first + SEGMENT_KEYFRAMES);
+                const isLast = first + SEGMENT_KEYFRAMES >= keyframes.length;
+                const end = isLast ? track.endTime : chunk[chunk.length - 1].timestamp;
+                const segment = this.buildSegment(track, chunk, end, metadata);
+
+                if (segment) {
+                    segments.push(segment);
+                }
+                if (isLast) {
+                    break;
+                }
+            }
+        }
+
+        return segments;
+    }
+
+    // The box is as large as the largest keyframe in the segment; its centre
+    // moves linearly between keyframes and is kept inside the frame
+    private buildSegment(
+        track: FaceTrack,
+        keyframes: TrackKeyframe[],
+        endTime: number,
+        metadata: VideoMetadata
+    ): RenderSegment | null {
+        // Crop sizes must stay inside the frame and even for yuv420p chroma planes
+        const width = Math.min(Math.ceil(Math.max(...keyframes.map(keyframe => keyframe.width))), metadata.width);
+        const height = Math.min(Math.ceil(Math.max(...keyframes.map(keyframe => keyframe.height))), metadata.height);
+        const evenWidth = width - (width % 2);
+        const evenHeight = height - (height % 2);
+
+        if (evenWidth < 2 || evenHeight < 2) {
+            return null;
+        }
+
+        const times = keyframes.map(keyframe => keyframe.timestamp / 1000);
+        const centerX = this.piecewiseLinear(times, keyframes.map(keyframe => keyframe.x + keyframe.width / 2));
+        const centerY = this.piecewiseLinear(times, keyframes.map(keyframe => keyframe.y + keyframe.height / 2));
+        const end = endTime / 1000;
+
+        return {
+            trackId: track.id,
+            shape: track.shape || 'rectangle',
+            x: `clip(${centerX}-${evenWidth / 2},0,${metadata.width - evenWidth})`,
+            y: `clip(${centerY}-${evenHeight / 2},0,${metadata.height - evenHeight})`,
+            width: evenWidth,
+            height: evenHeight,
+            start: times[0],
+            end: metadata.duration > 0 ? Math.min(end, metadata.duration) : end,
+        };
+    }
 
-                // Start the "processing"
-                setTimeout(() => {
-                    clearInterval(progressInterval);
-                    reject(new Error('Processing timeout'));
-                }, 300000); // 5 minute timeout
+    // FFmpeg expression of t that passes through (times[i], values[i])
+    private piecewiseLinear(times: number[], values: number[]): string {
+        let expression = values[values.length - 1].toFixed(1);
 
-            } catch (error) {
-                clearInterval(progressInterval);
-                reject(error);
+        for (let index = values.length - 2; index >= 0; index--) {
+            const span = times[index + 1] - times[index];
+            if (span <= 0) {
+                continue;
             }
+
+            const slope = (values[index + 1] - values[index]) / span;
+            expression =
+                `if(lt(t,${times[index + 1].toFixed(3)}),` +
+                `${values[index].toFixed(1)}+(${slope.toFixed(3)})*(t-${times[index].toFixed(3)}),` +
+                `${expression})`;
+        }
+
+        return expression;
+    }
+
+    // Builds: split the source, run the effect on a crop per segment, overlay
+    // each crop back while the face is visible. Ellipses get a transparent
+    // outside so only the oval is overlaid
+    private buildCropFilterGraph(
+        segments: RenderSegment[],
+        effect: (segment: RenderSegment) => string,
+        input = '[0:v]'
+    ): string[] {
+        if (segments.length === 0) {
+            return [`${input}null[vout]`];
+        }
+
+        const cropLabels = segments.map((_, index) => `[src${index}]`);
+        const filters = [`${input}split=${segments.length + 1}[base]${cropLabels.join('')}`];
+
+        // Each branch ends with its segment so it stops cropping and obscuring
+        // once the face is gone, and eof_action=pass lets the overlay carry on
+        // without it. The start is not trimmed: the overlay would hold the base
+        // video back until the branch's first frame, buffering everything
+        // before it, so enable keeps the branch hidden until then instead.
+        segments.forEach((segment, index) => {
+            const mask = segment.shape === 'ellipse' ? `,${ELLIPSE_MASK_FILTER}` : '';
+
+            filters.push(
+                `${cropLabels[index]}trim=end=${(segment.end + TRIM_PADDING).toFixed(3)},` +
+                `crop=w=${segment.width}:h=${segment.height}:` +
+                `x='${segment.x}':y='${segment.y}',` +
+                `${effect(segment)}${mask}[obscured${index}]`
+            );
         });
+
+        segments.forEach((segment, index) => {
+            const source = index === 0 ? '[base]' : `[v${index - 1}]`;
+            const output = index === segments.length - 1 ? '[vout]' : `[v${index}]`;
+
+            filters.push(
+                `${source}[obscured${index}]overlay=x='${segment.x}':y='${segment.y}':eof_action=pass:` +
+                `enable='${this.enableExpression(segment)}'${output}`
+            );
+        });
+
+        return filters;
     }
 
-    private async finalizeVideoProcessing(
-        inputPath: string,
-        outputPath: string,
-        faces: DetectedFace[],
-        blurConfig: any
-    ): Promise<void> {
-        // In production, this would apply actual FFmpeg filters
-        // For now, simulate the final processing step
+    private buildBlurFilterGraph(segments: RenderSegment[], blurRadius: number, sigma: number): string[] {
+        return this.buildCropFilterGraph(segments, segment => {
+            // boxblur radius may not exceed half of the smallest (chroma) plane
+            const radius = Math.max(
+                1,
+                Math.min(blurRadius, Math.floor(Math.min(segment.width, segment.height) / 4))
+            );
 
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // Create output file (empty for now)
-                const fs = require('fs');
-                fs.writeFileSync(outputPath, 'simulated processed video');
-                resolve();
-            }, 1000);
+            return `boxblur=${radius}:2,gblur=sigma=${sigma}`;
+        });
+    }
+
+    // Downscale then upscale with nearest-neighbour to get visible blocks
+    private buildPixelationFilterGraph(segments: RenderSegment[], pixelSize: number): string[] {
+        return this.buildCropFilterGraph(segments, segment => {
+            const columns = Math.max(1, Math.round(segment.width / pixelSize));
+            const rows = Math.max(1, Math.round(segment.height / pixelSize));
+
+            return `scale=${columns}:${rows}:flags=area,scale=${segment.width}:${segment.height}:flags=neighbor`;
+        });
+    }
+
+    // Opaque boxes drawn straight onto the frame, nothing of the face survives.
+    // drawbox only draws rectangles, so ellipses are filled crops overlaid afterwards
+    private buildSolidFilterGraph(segments: RenderSegment[], color: string): string[] {
+        if (segments.length === 0) {
+            return ['[0:v]null[vout]'];
+        }
+
+        const ffmpegColor = `0x${color.replace('#', '')}@1.0`;
+        const rectangles = segments.filter(segment => segment.shape !== 'ellipse');
+        const ellipses = segments.filter(segment => segment.shape === 'ellipse');
+        const boxes = rectangles.map(segment =>
+            `drawbox=x='${segment.x}':y='${segment.y}':w=${segment.width}:h=${segment.height}:` +
+            `color=${ffmpegColor}:t=fill:enable='${this.enableExpression(segment)}'`
+        );
+
+        if (ellipses.length === 0) {
+            return [`[0:v]${boxes.join(',')}[vout]`];
+        }
+
+        const fill = `drawbox=x=0:y=0:w=iw:h=ih:color=${ffmpegColor}:t=fill`;
+
+        if (boxes.length === 0) {
+            return this.buildCropFilterGraph(ellipses, () => fill);
+        }
+
+        return [
+            `[0:v]${boxes.join(',')}[boxed]`,
+            ...this.buildCropFilterGraph(ellipses, () => fill, '[boxed]'),
+        ];
+    }
+
+    // Builds: scale a penguin sticker (extra input 1..n) to each segment and
+    // overlay it while the face is visible
+    private buildMaskFilterGraph(segments: RenderSegment[], stickerPaths: string[]): string[] {
+        if (segments.length === 0) {
+            return ['[0:v]null[vout]'];
+        }
+
+        const filters: string[] = [];
+        const stickerLabels = new Map<number, string[]>();
+
+        segments.forEach((segment, index) => {
+            const stickerIndex = stickerPaths.indexOf(this.pickSticker(segment.trackId, stickerPaths));
+            const labels = stickerLabels.get(stickerIndex) || [];
+            labels.push(`[sticker${index}]`);
+            stickerLabels.set(stickerIndex, labels);
         });
+
+        // Each sticker input is a single frame, so split it once per segment that uses it
+        for (const [stickerIndex, labels] of stickerLabels.entries()) {
+            filters.push(`[${stickerIndex + 1}:v]format=rgba,split=${labels.length}${labels.join('')}`);
+        }
+
+        segments.forEach((segment, index) => {
+            filters.push(`[sticker${index}]scale=${segment.width}:${segment.height}[mask${index}]`);
+        });
+
+        segments.forEach((segment, index) => {
+            const input = index === 0 ? '[0:v]' : `[v${index - 1}]`;
+            const output = index === segments.length - 1 ? '[vout]' : `[v${index}]`;
+
+            filters.push(
+                `${input}[mask${index}]overlay=x='${segment.x}':y='${segment.y}':` +
+                `enable='${this.enableExpression(segment)}'${output}`
+            );
+        });
+
+        return filters;
     }
 
-    private getBlurConfig(intensity: string): any {
-        const configs = {
+    private enableExpression(segment: RenderSegment): string {
+        return `between(t,${segment.start.toFixed(3)},${segment.end.toFixed(3)})`;
+    }
+
+    // The same face always gets the same penguin
+    private pickSticker(trackId: string, stickerPaths: string[]): string {
+        let hash = 0;
+        for (const char of trackId) {
+            hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+        }
+
+        return stickerPaths[hash % stickerPaths.length];
+    }
+
+    private calculateProgress(
+        ffmpegProgress: { percent?: number; timemark?: string },
+        duration: number
+    ): number {
+        let percent = ffmpegProgress.percent;
+
+        if ((percent === undefined || Number.isNaN(percent)) && ffmpegProgress.timemark && duration > 0) {
+            const [hours, minutes, seconds] = ffmpegProgress.timemark.split(':').map(Number);
+            percent = ((hours * 3600 + minutes * 60 + seconds) / duration) * 100;
+        }
+
+        return Math.max(0, Math.min(99, Math.round(percent || 0)));
+    }
+
+    private deleteFileIfExists(filePath: string): void {
+        try {
+            if (existsSync(filePath)) {
+                unlinkSync(filePath);
+            }
+        } catch (error) {
+            logger.error('Failed to delete partial output', { filePath, error });
+        }
+    }
+
+    private getBlurConfig(intensity: string): BlurConfig {
+        const configs: Record<string, BlurConfig> = {
             low: {
                 blurRadius: 5,
                 sigma: 2,
@@ -170,20 +552,12 @@ class VideoProcessingService {
         return configs[intensity] || configs.medium;
     }
 
-    private generateOutputPath(inputPath: string): string {
-        const path = require('path');
-        const os = require('os');
-        const uuid = require('uuid');
-
-        const parsedPath = path.parse(inputPath);
+    // Outputs go next to the input, which is in the job's folder
+    private generateOutputPath(inputPath: string, extension: string): string {
         const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-        const uniqueId = uuid.v4();
+        const uniqueId = uuidv4();
 
-        return path.join(
-            os.tmpdir(),
-            'penguinblur',
-            `processed-${timestamp}-${uniqueId}.mp4`
-        );
+        return join(dirname(inputPath), `processed-${timestamp}-${uniqueId}.${extension}`);
     }
 
     private getProgressMessage(progress: number): string {
@@ -206,108 +580,110 @@ class VideoProcessingService {
     async applyPixelationBlur(
         inputPath: string,
         outputPath: string,
-        faces: DetectedFace[],
-        pixelationLevel: number
+        tracks: FaceTrack[],
+        pixelationLevel: number,
+        onProgress?: (progress: ProcessingProgress) => void,
+        signal?: AbortSignal
     ): Promise<void> {
-        // Simulate pixelation blur like ObscuraCam's PixelizeObscure
+        // Pixelation like ObscuraCam's PixelizeObscure
+        const metadata = await this.getVideoMetadata(inputPath, signal);
+        const segments = this.buildRenderSegments(tracks, metadata);
+        const filterGraph = this.buildPixelationFilterGraph(segments, pixelationLevel);
+
         logger.info('Applying pixelation blur', {
             inputPath,
             outputPath,
             pixelationLevel,
-            facesCount: faces.length,
+            tracksCount: tracks.length,
+            segmentsCount: segments.length,
         });
 
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // In production, this would use FFmpeg pixelation filter
-                logger.debug('Pixelation blur applied', {
-                    faces,
-                    level: pixelationLevel,
-                });
-                resolve();
-            }, 2000);
-        });
+        return this.runFfmpeg(inputPath, outputPath, filterGraph, [], metadata, onProgress, signal);
     }
 
     async applyGaussianBlur(
         inputPath: string,
         outputPath: string,
-        faces: DetectedFace[],
+        tracks: FaceTrack[],
         blurRadius: number,
-        sigma: number
+        sigma: number,
+        onProgress?: (progress: ProcessingProgress) => void,
+        signal?: AbortSignal
     ): Promise<void> {
-        // Simulate Gaussian blur like ObscuraCam's BlurObscure
+        // Gaussian blur like ObscuraCam's BlurObscure
+        const metadata = await this.getVideoMetadata(inputPath, signal);
+        const segments = this.buildRenderSegments(tracks, metadata);
+        const filterGraph = this.buildBlurFilterGraph(segments, blurRadius, sigma);
+
         logger.info('Applying Gaussian blur', {
             inputPath,
             outputPath,
             blurRadius,
             sigma,
-            facesCount: faces.length,
+            tracksCount: tracks.length,
+            segmentsCount: segments.length,
         });
 
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // In production, this would use FFmpeg gblur filter
-                logger.debug('Gaussian blur applied', {
-                    faces,
-                    radius: blurRadius,
-                    sigma,
-                });
-                resolve();
-            }, 1500);
-        });
+        return this.runFfmpeg(inputPath, outputPath, filterGraph, [], metadata, onProgress, signal);
     }
 
     async applySolidObscure(
         inputPath: string,
         outputPath: string,
-        faces: DetectedFace[],
-        color: string = '#000000'
+        tracks: FaceTrack[],
+        color: string = '#000000',
+        onProgress?: (progress: ProcessingProgress) => void,
+        signal?: AbortSignal
     ): Promise<void> {
-        // Simulate solid obscuring like ObscuraCam's SolidObscure
+        // Solid boxes like ObscuraCam's SolidObscure
+        const metadata = await this.getVideoMetadata(inputPath, signal);
+        const segments = this.buildRenderSegments(tracks, metadata);
+        const filterGraph = this.buildSolidFilterGraph(segments, color);
+
         logger.info('Applying solid obscure', {
             inputPath,
             outputPath,
             color,
-            facesCount: faces.length,
+            tracksCount: tracks.length,
+            segmentsCount: segments.length,
         });
 
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // In production, this would use FFmpeg drawbox filter
-                logger.debug('Solid obscure applied', {
-                    faces,
-                    color,
-                });
-                resolve();
-            }, 1000);
-        });
+        return this.runFfmpeg(inputPath, outputPath, filterGraph, [], metadata, onProgress, signal);
     }
 
     async applyMaskObscure(
         inputPath: string,
         outputPath: string,
-        faces: DetectedFace[],
-        maskPath?: string
+        tracks: FaceTrack[],
+        maskPath?: string,
+        onProgress?: (progress: ProcessingProgress) => void,
+        signal?: AbortSignal
     ): Promise<void> {
-        // Simulate mask obscuring like ObscuraCam's MaskObscure
+        // Like ObscuraCam's MaskObscure, but with a penguin sticker per face
+        const stickerPaths = maskPath
+            ? [maskPath]
+            : Object.values(PENGUIN_STICKERS).map(sticker => join(PENGUIN_STICKER_DIR, sticker));
+
+        for (const stickerPath of stickerPaths) {
+            if (!existsSync(stickerPath)) {
+                throw new Error(`Mask image not found: ${stickerPath}`);
+            }
+        }
+
+        const metadata = await this.getVideoMetadata(inputPath, signal);
+        const segments = this.buildRenderSegments(tracks, metadata);
+        const filterGraph = this.buildMaskFilterGraph(segments, stickerPaths);
+        const usedStickers = segments.length > 0 ? stickerPaths : [];
+
         logger.info('Applying mask obscure', {
             inputPath,
             outputPath,
             maskPath,
-            facesCount: faces.length,
+            tracksCount: tracks.length,
+            segmentsCount: segments.length,
         });
 
-        return new Promise((resolve) => {
-            setTimeout(() => {
-                // In production, this would overlay a mask image
-                logger.debug('Mask obscure applied', {
-                    faces,
-                    maskPath,
-                });
-                resolve();
-            }, 1800);
-        });
+        return this.runFfmpeg(inputPath, outputPath, filterGraph, usedStickers, metadata, onProgress, signal);
     }
 
     // Video quality optimization
@@ -356,32 +732,83 @@ class VideoProcessingService {
     }
 
     // Extract video metadata
-    async getVideoMetadata(inputPath: string): Promise<any> {
+    // Run through execFile rather than fluent-ffmpeg, which keeps the ffprobe
+    // process to itself, so aborting the signal can kill it
+    async getVideoMetadata(inputPath: string, signal?: AbortSignal): Promise<VideoMetadata> {
+        const args = ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', inputPath];
+
         return new Promise((resolve, reject) => {
-            try {
-                // In production, this would use FFmpeg ffprobe
-                const mockMetadata = {
-                    duration: 120, // 2 minutes
-                    width: 1920,
-                    height: 1080,
-                    fps: 30,
-                    bitrate: '2000k',
-                    codec: 'h264',
-                    format: 'mp4',
-                    size: '50MB',
+            execFile('ffprobe', args, { maxBuffer: 16 * 1024 * 1024, signal }, (error, stdout) => {
+                if (error) {
+                    reject(new Error(`ffprobe failed: ${error.message}`));
+                    return;
+                }
+
+                let data: FfprobeData;
+                try {
+                    data = JSON.parse(stdout);
+                } catch (parseError) {
+                    reject(new Error('ffprobe returned unreadable metadata'));
+                    return;
+                }
+
+                const videoStream = data.streams.find(stream => stream.codec_type === 'video');
+
+                if (!videoStream) {
+                    reject(new Error('No video stream found in input'));
+                    return;
+                }
+
+                // ffmpeg rotates phone videos upright before any filter, and
+                // the boxes are drawn on the upright picture, so a quarter turn
+                // swaps the coded width and height
+                const quarterTurn = this.getRotation(videoStream) % 180 === 90;
+
+                const metadata: VideoMetadata = {
+                    duration: Number(data.format.duration) || Number(videoStream.duration) || 0,
+                    width: (quarterTurn ? videoStream.height : videoStream.width) || 0,
+                    height: (quarterTurn ? videoStream.width : videoStream.height) || 0,
+                    fps: this.parseFrameRate(videoStream.avg_frame_rate || videoStream.r_frame_rate),
+                    bitrate: Number(data.format.bit_rate) || 0,
+                    codec: videoStream.codec_name || 'unknown',
+                    format: data.format.format_name || 'unknown',
+                    size: Number(data.format.size) || 0,
+                    hasAudio: data.streams.some(stream => stream.codec_type === 'audio'),
                 };
 
                 logger.debug('Video metadata extracted', {
                     inputPath,
-                    metadata: mockMetadata,
+                    metadata,
                 });
 
-                resolve(mockMetadata);
-            } catch (error) {
-                reject(error);
-            }
+                resolve(metadata);
+            });
         });
     }
+
+    // Turn of the picture in degrees, 0-359. Newer ffprobe reports it in
+    // the display matrix side data, older versions as a rotate tag
+    private getRotation(stream: FfprobeStream): number {
+        const displayMatrix = (stream.side_data_list || []).find(
+            (sideData: { rotation?: number }) => sideData.rotation !== undefined
+        );
+        const rotation = Math.round(Number(displayMatrix?.rotation ?? stream.tags?.rotate ?? 0)) || 0;
+
+        return ((rotation % 360) + 360) % 360;
+    }
+
+    private parseFrameRate(frameRate?: string): number {
+        if (!frameRate) {
+            return 0;
+        }
+
+        const [numerator, denominator] = frameRate.split('/').map(Number);
+        if (!denominator) {
+            return numerator || 0;
+        }
+
+        return numerator / denominator;
+    }
 }
 
 export const videoProcessingService = new VideoProcessingService();
@@ -1,5 +1,6 @@
 import { createWriteStream, existsSync, mkdirSync } from 'fs';
 import { join } from 'path';
+import { config } from '../config';
 
 enum LogLevel {
     ERROR = 'ERROR',
@@ -39,7 +40,7 @@ class Logger {
         stream.end();
 
         // Also log to console in development
-        if (process.env.NODE_ENV !== 'production') {
+        if (!config.isProduction) {
             const consoleMessage = `[${timestamp}] ${level}: ${message}`;
             switch (level) {
                 case LogLevel.ERROR:
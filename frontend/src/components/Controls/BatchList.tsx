@@ -0,0 +1,161 @@
+import React from 'react';
+import { Box, Button, LinearProgress, Link, Typography } from '@mui/material';
+import { Download } from 'lucide-react';
+import { batchApi, BatchFileStatus, BatchStatusInfo, UploadedBatch, videoApi } from '../../services/api';
+import { designTokens } from '../../styles/theme';
+
+export interface BatchListProps {
+    batch?: BatchStatusInfo;
+    rejected: UploadedBatch['rejected'];
+    isUploading: boolean;
+    onProcess: () => void;
+    onClose: () => void;
+    errorMessage?: string | null;
+}
+
+const STATUS_LABELS: Record<BatchFileStatus, string> = {
+    uploaded: 'Ready',
+    queued: 'Waiting',
+    processing: 'Processing',
+    detecting: 'Detecting',
+    reviewing: 'Detected',
+    rendering: 'Rendering',
+    completed: 'Done',
+    failed: 'Failed',
+    cancelled: 'Cancelled',
+    interrupted: 'Interrupted',
+    expired: 'Expired'
+};
+
+// All files of a batch with their own progress, under the overall progress
+export const BatchList: React.FC<BatchListProps> = ({
+    batch,
+    rejected,
+    isUploading,
+    onProcess,
+    onClose,
+    errorMessage
+}) => {
+    const isRunning = batch?.status === 'processing';
+    const completedCount = batch?.counts.completed ?? 0;
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                <Typography variant="h6" sx={{ fontWeight: 700, color: '#000000', flexGrow: 1 }}>
+                    📚 Batch {batch ? `(${completedCount} of ${batch.files.length} done)` : ''}
+                </Typography>
+                <Button variant="outlined" onClick={onClose} disabled={isRunning || isUploading}>
+                    Close batch
+                </Button>
+                {batch && completedCount > 0 && (
+                    <Button
+                        variant="outlined"
+                        href={batchApi.archiveUrl(batch.batchId)}
+                        startIcon={<Download size={18} />}
+                    >
+                        Download zip
+                    </Button>
+                )}
+                <Button variant="contained" onClick={onProcess} disabled={!batch || isRunning || isUploading}>
+                    🐧 {batch?.status === 'completed' ? 'Process all again' : 'Process all'}
+                </Button>
+            </Box>
+
+            {isUploading && (
+                <Box>
+                    <LinearProgress />
+                    <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                        Uploading files...
+                    </Typography>
+                </Box>
+            )}
+
+            {batch && batch.status !== 'uploaded' && (
+                <Box>
+                    <LinearProgress variant="determinate" value={batch.progress} />
+                    <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                        {isRunning ? 'Processing files one at a time...' : 'Batch finished'} {batch.progress}%
+                    </Typography>
+                </Box>
+            )}
+
+            {batch && (
+                <Box
+                    sx={{
+                        display: 'flex',
+                        flexDirection: 'column',
+                        border: `1px solid ${designTokens.colors.border}`,
+                        borderRadius: designTokens.borderRadius.small,
+                        overflow: 'hidden'
+                    }}
+                >
+                    {batch.files.map(file => (
+                        <Box
+                            key={file.fileId}
+                            sx={{
+                                display: 'flex',
+                                alignItems: 'center',
+                                gap: 2,
+                                px: 2,
+                                py: 1,
+                                borderBottom: `1px solid ${designTokens.colors.border}`,
+                                '&:last-of-type': { borderBottom: 'none' }
+                            }}
+                        >
+                            <Typography
+                                variant="body2"
+                                noWrap
+                                title={file.originalName}
+                                sx={{ flex: 1, minWidth: 0, fontWeight: 600, color: designTokens.colors.text.primary }}
+                            >
+                                {file.originalName}
+                            </Typography>
+                            <Box sx={{ width: 160 }}>
+                                <LinearProgress variant="determinate" value={file.progress} />
+                            </Box>
+                            <Typography
+                                variant="caption"
+                                sx={{
+                                    width: 80,
+                                    color: file.status === 'failed' || file.status === 'interrupted'
+                                        ? designTokens.colors.primary.dark
+                                        : designTokens.colors.text.secondary
+                                }}
+                            >
+                                {STATUS_LABELS[file.status]}
+                            </Typography>
+                            <Box sx={{ width: 24, display: 'flex' }}>
+                                {file.downloadUrl && (
+                                    <Link
+                                        href={videoApi.downloadUrl(file.fileId)}
+                                        title={`Download ${file.originalName}`}
+                                        sx={{ display: 'flex', color: designTokens.colors.primary.main }}
+                                    >
+                                        <Download size={18} />
+                                    </Link>
+                                )}
+                            </Box>
+                        </Box>
+                    ))}
+                </Box>
+            )}
+
+            {rejected.map(file => (
+                <Typography
+                    key={file.originalName}
+                    variant="body2"
+                    sx={{ color: designTokens.colors.text.secondary }}
+                >
+                    {file.originalName} was skipped: {file.message}
+                </Typography>
+            ))}
+
+            {errorMessage && (
+                <Typography variant="body2" sx={{ color: designTokens.colors.primary.dark, fontWeight: 600 }}>
+                    {errorMessage}
+                </Typography>
+            )}
+        </Box>
+    );
+};
@@ -1,28 +1,44 @@
 import React from 'react';
 import { Box, Card, Grid } from '@mui/material';
 import { UploadZone } from './UploadZone';
+import { ReferencePhotoPicker } from './ReferencePhotoPicker';
 import { BlurSlider } from './BlurSlider';
 import { PrivacyToggle } from './PrivacyToggle';
 import { ExportButton } from './ExportButton';
+import { DetectionReview, DetectionReviewProps } from './DetectionReview';
+import { BatchList, BatchListProps } from './BatchList';
+import { UploadProgress } from '../../services/api';
 
 interface ControlPanelProps {
     onFileUpload: (file: File) => void;
+    onFilesUpload: (files: File[]) => void;
+    uploadProgress?: UploadProgress | null;
+    referencePhotos: File[]; // sent with the next upload
+    onReferencePhotosChange: (photos: File[]) => void;
     blurIntensity: number;
     onBlurIntensityChange: (intensity: number) => void;
     isProcessing: boolean;
     hasVideo: boolean;
     originalVideoUrl?: string;
     processedVideoUrl?: string;
+    review?: DetectionReviewProps; // shown once a video is uploaded
+    batch?: BatchListProps; // shown instead of the review when several files were uploaded
 }
 
 export const ControlPanel: React.FC<ControlPanelProps> = ({
     onFileUpload,
+    onFilesUpload,
+    uploadProgress,
+    referencePhotos,
+    onReferencePhotosChange,
     blurIntensity,
     onBlurIntensityChange,
     isProcessing,
     hasVideo,
     originalVideoUrl,
-    processedVideoUrl
+    processedVideoUrl,
+    review,
+    batch
 }) => {
     return (
         <Card
@@ -37,8 +53,15 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                 <Grid item xs={12} md={6}>
                     <UploadZone
                         onFileUpload={onFileUpload}
+                        onFilesUpload={onFilesUpload}
+                        uploadProgress={uploadProgress}
                         isDisabled={isProcessing}
                     />
+                    <ReferencePhotoPicker
+                        photos={referencePhotos}
+                        onChange={onReferencePhotosChange}
+                        disabled={isProcessing}
+                    />
                 </Grid>
 
                 {/* Blur Controls */}
@@ -50,6 +73,20 @@ export const ControlPanel: React.FC<ControlPanelProps> = ({
                     />
                 </Grid>
 
+                {/* Batch */}
+                {batch && (
+                    <Grid item xs={12}>
+                        <BatchList {...batch} />
+                    </Grid>
+                )}
+
+                {/* Detection Review */}
+                {review && !batch && (
+                    <Grid item xs={12}>
+                        <DetectionReview {...review} />
+                    </Grid>
+                )}
+
                 {/* Privacy and Export Controls */}
                 <Grid item xs={12}>
                     <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
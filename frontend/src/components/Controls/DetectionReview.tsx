@@ -0,0 +1,125 @@
+import React from 'react';
+import { Box, Button, LinearProgress, Typography } from '@mui/material';
+import { FaceIdentity, FaceTrack, JobStatus, ReferencePhoto, SceneCut } from '../../services/api';
+import { designTokens } from '../../styles/theme';
+import { ReviewTimeline } from './ReviewTimeline';
+import { TrackGallery } from './TrackGallery';
+
+export interface DetectionReviewProps {
+    fileId: string;
+    status?: JobStatus;
+    progress: number;
+    queuePosition?: number | null;
+    tracks?: FaceTrack[];
+    identities?: FaceIdentity[];
+    referencePhotos?: ReferencePhoto[];
+    sceneCuts?: SceneCut[];
+    duration?: number; // ms
+    excludedTrackIds: string[];
+    onToggleIdentity: (identityId: string) => void;
+    onToggleTrack: (trackId: string) => void;
+    onDetect: () => void;
+    onRender: () => void;
+    onCancel: () => void;
+    errorMessage?: string | null;
+}
+
+// Detect, then decide per person whether it is blurred before rendering
+export const DetectionReview: React.FC<DetectionReviewProps> = ({
+    fileId,
+    status,
+    progress,
+    queuePosition,
+    tracks,
+    identities = [],
+    referencePhotos,
+    sceneCuts = [],
+    duration = 0,
+    excludedTrackIds,
+    onToggleIdentity,
+    onToggleTrack,
+    onDetect,
+    onRender,
+    onCancel,
+    errorMessage
+}) => {
+    const isBusy = status === 'queued' || status === 'detecting' || status === 'rendering';
+    const blurredCount = identities.filter(identity =>
+        !identity.trackIds.every(id => excludedTrackIds.includes(id))
+    ).length;
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                <Typography variant="h6" sx={{ fontWeight: 700, color: '#000000', flexGrow: 1 }}>
+                    🔍 Review detections
+                </Typography>
+                <Button variant="outlined" onClick={onDetect} disabled={isBusy}>
+                    {tracks ? 'Detect again' : 'Detect faces'}
+                </Button>
+                {isBusy ? (
+                    <Button variant="outlined" onClick={onCancel}>
+                        Cancel
+                    </Button>
+                ) : (
+                    <Button variant="contained" onClick={onRender} disabled={!tracks}>
+                        🐧 Render {tracks ? `(${blurredCount} blurred)` : ''}
+                    </Button>
+                )}
+            </Box>
+
+            {status === 'queued' && (
+                <Box>
+                    <LinearProgress />
+                    <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                        Waiting for a free worker{queuePosition ? ` (position ${queuePosition} in the queue)` : ''}...
+                    </Typography>
+                </Box>
+            )}
+
+            {(status === 'detecting' || status === 'rendering') && (
+                <Box>
+                    <LinearProgress variant="determinate" value={progress} />
+                    <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                        {status === 'detecting' ? 'Looking for faces...' : 'Rendering...'} {progress}%
+                    </Typography>
+                </Box>
+            )}
+
+            {tracks && tracks.length === 0 && (
+                <Typography variant="body2" sx={{ color: designTokens.colors.text.secondary }}>
+                    No faces found. Use manual regions to cover anything that still needs hiding.
+                </Typography>
+            )}
+
+            {tracks && (tracks.length > 0 || sceneCuts.length > 0) && (
+                <ReviewTimeline
+                    duration={duration}
+                    tracks={tracks}
+                    identities={identities}
+                    sceneCuts={sceneCuts}
+                    excludedTrackIds={excludedTrackIds}
+                />
+            )}
+
+            {tracks && tracks.length > 0 && (
+                <TrackGallery
+                    fileId={fileId}
+                    tracks={tracks}
+                    identities={identities}
+                    referencePhotos={referencePhotos}
+                    excludedTrackIds={excludedTrackIds}
+                    onToggleIdentity={onToggleIdentity}
+                    onToggleTrack={onToggleTrack}
+                    disabled={isBusy}
+                />
+            )}
+
+            {errorMessage && (
+                <Typography variant="body2" sx={{ color: designTokens.colors.primary.dark, fontWeight: 600 }}>
+                    {errorMessage}
+                </Typography>
+            )}
+        </Box>
+    );
+};
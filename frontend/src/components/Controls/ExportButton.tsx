@@ -3,6 +3,13 @@ import { Button, Typography, Box } from '@mui/material';
 import { Download } from 'lucide-react';
 import { designTokens } from '../../styles/theme';
 
+// Images come back in the format they were uploaded in
+const FILE_EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/bmp': 'bmp'
+};
+
 interface ExportButtonProps {
     disabled?: boolean;
     processedVideoUrl?: string;
@@ -32,7 +39,7 @@ export const ExportButton: React.FC<ExportButtonProps> = ({
 
             // Generate filename with timestamp
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-            link.download = `penguin-blur-${timestamp}.mp4`;
+            link.download = `penguin-blur-${timestamp}.${FILE_EXTENSIONS[blob.type] || 'mp4'}`;
 
             // Trigger download
             document.body.appendChild(link);
@@ -0,0 +1,69 @@
+import React, { useRef } from 'react';
+import { Box, Button, Chip, Typography } from '@mui/material';
+import { UserCheck } from 'lucide-react';
+import { designTokens } from '../../styles/theme';
+import { useServerConfig } from '../../hooks/useServerConfig';
+
+interface ReferencePhotoPickerProps {
+    photos: File[];
+    onChange: (photos: File[]) => void;
+    disabled?: boolean;
+}
+
+// Photos of people who must stay unblurred, sent with the next video upload
+export const ReferencePhotoPicker: React.FC<ReferencePhotoPickerProps> = ({
+    photos,
+    onChange,
+    disabled = false
+}) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const serverConfig = useServerConfig();
+    const maxPhotos = serverConfig?.maxReferencePhotos ?? Infinity;
+
+    const handleSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = Array.from(event.target.files || []);
+        onChange([...photos, ...selected].slice(0, maxPhotos));
+
+        // Allow picking the same file again after removing it
+        event.target.value = '';
+    };
+
+    return (
+        <Box sx={{ mt: 2, display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<UserCheck size={16} />}
+                    onClick={() => inputRef.current?.click()}
+                    disabled={disabled || photos.length >= maxPhotos}
+                >
+                    Add people to keep
+                </Button>
+                <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                    Faces matching these photos stay unblurred
+                </Typography>
+            </Box>
+            <input
+                ref={inputRef}
+                type="file"
+                accept={serverConfig?.referencePhotoTypes.join(',') ?? 'image/*'}
+                multiple
+                hidden
+                onChange={handleSelect}
+            />
+            {photos.length > 0 && (
+                <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+                    {photos.map((photo, index) => (
+                        <Chip
+                            key={`${photo.name}-${index}`}
+                            label={photo.name}
+                            size="small"
+                            onDelete={disabled ? undefined : () => onChange(photos.filter((_, current) => current !== index))}
+                        />
+                    ))}
+                </Box>
+            )}
+        </Box>
+    );
+};
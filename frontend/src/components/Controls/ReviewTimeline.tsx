@@ -0,0 +1,99 @@
+import React from 'react';
+import { Box, Tooltip, Typography } from '@mui/material';
+import { FaceIdentity, FaceTrack, SceneCut } from '../../services/api';
+import { designTokens } from '../../styles/theme';
+
+interface ReviewTimelineProps {
+    duration: number; // ms
+    tracks: FaceTrack[];
+    identities: FaceIdentity[];
+    sceneCuts: SceneCut[];
+    excludedTrackIds: string[];
+}
+
+const ROW_HEIGHT = 14;
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+// One row per person with a bar for each appearance, and the scene cuts as
+// vertical lines across all rows. Tracks always end at a cut.
+export const ReviewTimeline: React.FC<ReviewTimelineProps> = ({
+    duration,
+    tracks,
+    identities,
+    sceneCuts,
+    excludedTrackIds
+}) => {
+    // Tracks may be held slightly past the last decoded frame
+    const span = Math.max(duration, ...tracks.map(track => track.endTime), 1);
+    const toPercent = (ms: number) => `${Math.min(100, (ms / span) * 100)}%`;
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 0.5 }}>
+            <Box
+                sx={{
+                    position: 'relative',
+                    height: Math.max(1, identities.length) * (ROW_HEIGHT + 4) + 4,
+                    borderRadius: designTokens.borderRadius.small,
+                    border: `1px solid ${designTokens.colors.border}`,
+                    backgroundColor: designTokens.colors.background.secondary,
+                    overflow: 'hidden'
+                }}
+            >
+                {identities.map((identity, row) => tracks
+                    .filter(track => identity.trackIds.includes(track.id))
+                    .map(track => {
+                        const isKept = excludedTrackIds.includes(track.id);
+
+                        return (
+                            <Tooltip
+                                key={track.id}
+                                title={`Person ${row + 1}: ${formatSeconds(track.startTime)} – ${formatSeconds(track.endTime)}`}
+                            >
+                                <Box
+                                    sx={{
+                                        position: 'absolute',
+                                        top: 4 + row * (ROW_HEIGHT + 4),
+                                        left: toPercent(track.startTime),
+                                        width: toPercent(track.endTime - track.startTime),
+                                        minWidth: 2,
+                                        height: ROW_HEIGHT,
+                                        borderRadius: 1,
+                                        backgroundColor: isKept
+                                            ? designTokens.colors.text.secondary
+                                            : designTokens.colors.primary.main
+                                    }}
+                                />
+                            </Tooltip>
+                        );
+                    }))}
+
+                {sceneCuts.map(cut => (
+                    <Tooltip key={cut.index} title={`Scene cut at ${formatSeconds(cut.timestamp)}`}>
+                        <Box
+                            sx={{
+                                position: 'absolute',
+                                top: 0,
+                                bottom: 0,
+                                left: toPercent(cut.timestamp),
+                                width: 2,
+                                backgroundColor: designTokens.colors.text.primary
+                            }}
+                        />
+                    </Tooltip>
+                ))}
+            </Box>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+                <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                    0.0s
+                </Typography>
+                <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                    {sceneCuts.length === 1 ? '1 scene cut' : `${sceneCuts.length} scene cuts`}
+                </Typography>
+                <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                    {formatSeconds(span)}
+                </Typography>
+            </Box>
+        </Box>
+    );
+};
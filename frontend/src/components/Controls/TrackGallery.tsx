@@ -0,0 +1,133 @@
+import React from 'react';
+import { Box, Card, Switch, Typography } from '@mui/material';
+import { FaceIdentity, FaceTrack, ReferencePhoto, videoApi } from '../../services/api';
+import { designTokens } from '../../styles/theme';
+
+interface TrackGalleryProps {
+    fileId: string;
+    tracks: FaceTrack[];
+    identities: FaceIdentity[];
+    referencePhotos?: ReferencePhoto[];
+    excludedTrackIds: string[];
+    onToggleIdentity: (identityId: string) => void;
+    onToggleTrack: (trackId: string) => void;
+    disabled?: boolean;
+}
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+// One card per person. The card's switch decides for every appearance, each
+// appearance also has its own in case two people were grouped together
+export const TrackGallery: React.FC<TrackGalleryProps> = ({
+    fileId,
+    tracks,
+    identities,
+    referencePhotos = [],
+    excludedTrackIds,
+    onToggleIdentity,
+    onToggleTrack,
+    disabled = false
+}) => {
+    return (
+        <Box
+            sx={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))',
+                gap: 2
+            }}
+        >
+            {identities.map((identity, index) => {
+                const appearances = tracks.filter(track => identity.trackIds.includes(track.id));
+                if (appearances.length === 0) {
+                    return null;
+                }
+
+                // The clearest appearance makes the best portrait
+                const portrait = appearances.reduce((best, track) =>
+                    track.confidence > best.confidence ? track : best
+                );
+                const isKept = identity.trackIds.every(id => excludedTrackIds.includes(id));
+                const isPartlyKept = !isKept && identity.trackIds.some(id => excludedTrackIds.includes(id));
+                const referenceId = appearances.find(track => track.referenceId)?.referenceId;
+                const reference = referencePhotos.find(photo => photo.id === referenceId);
+
+                return (
+                    <Card
+                        key={identity.id}
+                        sx={{
+                            p: 1.5,
+                            display: 'flex',
+                            flexDirection: 'column',
+                            alignItems: 'center',
+                            gap: 1,
+                            borderRadius: designTokens.borderRadius.medium,
+                            border: `2px solid ${isKept ? designTokens.colors.border : designTokens.colors.primary.main}`,
+                            backgroundColor: isKept ? designTokens.colors.background.secondary : 'rgba(255, 69, 0, 0.05)'
+                        }}
+                    >
+                        <Box
+                            component="img"
+                            src={videoApi.thumbnailUrl(fileId, portrait.id)}
+                            alt={`Person ${index + 1}`}
+                            onError={(event: React.SyntheticEvent<HTMLImageElement>) => {
+                                // No thumbnail could be cut for this track
+                                event.currentTarget.style.visibility = 'hidden';
+                            }}
+                            sx={{
+                                width: '100%',
+                                aspectRatio: '1',
+                                objectFit: 'cover',
+                                borderRadius: designTokens.borderRadius.small,
+                                backgroundColor: designTokens.colors.background.secondary
+                            }}
+                        />
+                        <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                            Person {index + 1}
+                        </Typography>
+                        {reference && (
+                            <Typography
+                                variant="caption"
+                                sx={{ color: designTokens.colors.text.primary, fontWeight: 600, textAlign: 'center' }}
+                            >
+                                Matches {reference.originalName}
+                            </Typography>
+                        )}
+                        <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                            {appearances.length === 1 ? '1 appearance' : `${appearances.length} appearances`}
+                        </Typography>
+                        <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+                            {appearances.map(track => (
+                                <Box key={track.id} sx={{ display: 'flex', alignItems: 'center' }}>
+                                    <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                                        {formatSeconds(track.startTime)} – {formatSeconds(track.endTime)}
+                                    </Typography>
+                                    <Switch
+                                        size="small"
+                                        checked={!excludedTrackIds.includes(track.id)}
+                                        onChange={() => onToggleTrack(track.id)}
+                                        disabled={disabled}
+                                        inputProps={{
+                                            'aria-label': `Blur person ${index + 1} at ${formatSeconds(track.startTime)}`
+                                        }}
+                                    />
+                                </Box>
+                            ))}
+                        </Box>
+                        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+                            <Typography variant="caption" sx={{ fontWeight: 600 }}>
+                                {isKept ? 'Keep' : isPartlyKept ? 'Partly kept' : 'Blur'}
+                            </Typography>
+                            <Switch
+                                size="small"
+                                checked={!isKept}
+                                onChange={() => onToggleIdentity(identity.id)}
+                                disabled={disabled}
+                                inputProps={{ 'aria-label': `Blur person ${index + 1}` }}
+                            />
+                        </Box>
+                    </Card>
+                );
+            })}
+        </Box>
+    );
+};
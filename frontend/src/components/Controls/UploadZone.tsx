@@ -1,49 +1,60 @@
 import React, { useCallback } from 'react';
-import { Box, Typography, Button } from '@mui/material';
+import { Box, Typography, Button, LinearProgress } from '@mui/material';
 import { useDropzone } from 'react-dropzone';
 import { UploadCloud } from 'lucide-react';
 import { designTokens } from '../../styles/theme';
+import { UploadProgress } from '../../services/api';
+import { useServerConfig } from '../../hooks/useServerConfig';
+
+const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 
 interface UploadZoneProps {
     onFileUpload: (file: File) => void;
+    onFilesUpload?: (files: File[]) => void; // several files dropped at once become a batch
+    uploadProgress?: UploadProgress | null;
     isDisabled?: boolean;
 }
 
 export const UploadZone: React.FC<UploadZoneProps> = ({
     onFileUpload,
+    onFilesUpload,
+    uploadProgress,
     isDisabled = false
 }) => {
+    // Single files are sent in resumable chunks, batches in one request, so
+    // they have different size limits
+    const serverConfig = useServerConfig();
+
     const onDrop = useCallback((acceptedFiles: File[]) => {
         if (acceptedFiles.length > 0) {
-            const file = acceptedFiles[0];
-
-            // Validate file type (video only)
-            const validVideoTypes = [
-                'video/mp4',
-                'video/avi',
-                'video/mov',
-                'video/wmv',
-                'video/flv',
-                'video/webm',
-                'video/quicktime'
-            ];
+            // Validate file type (videos and photos)
+            const files = serverConfig
+                ? acceptedFiles.filter(file => serverConfig.allowedTypes.includes(file.type))
+                : acceptedFiles;
 
-            if (validVideoTypes.includes(file.type)) {
-                onFileUpload(file);
+            if (files.length === 0) {
+                alert('Please upload a valid video or photo (MP4, AVI, MOV, WMV, FLV, WebM, JPEG, PNG, BMP)');
+            } else if (files.length === 1 || !onFilesUpload) {
+                onFileUpload(files[0]);
+            } else if (serverConfig && files.some(file => file.size > serverConfig.maxFileSize)) {
+                alert(`Files in a batch can be at most ${formatMegabytes(serverConfig.maxFileSize)} each`);
             } else {
-                alert('Please upload a valid video file (MP4, AVI, MOV, WMV, FLV, WebM)');
+                onFilesUpload(files);
             }
         }
-    }, [onFileUpload]);
+    }, [onFileUpload, onFilesUpload, serverConfig]);
 
     const { getRootProps, getInputProps, isDragActive } = useDropzone({
         onDrop,
         accept: {
-            'video/*': ['.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm', '.qt']
+            'video/*': ['.mp4', '.avi', '.mov', '.wmv', '.flv', '.webm', '.qt'],
+            'image/jpeg': ['.jpg', '.jpeg'],
+            'image/png': ['.png'],
+            'image/bmp': ['.bmp']
         },
-        maxFiles: 1,
-        maxSize: 50 * 1024 * 1024, // 50MB limit
-        multiple: false,
+        maxFiles: onFilesUpload ? serverConfig?.maxBatchFiles ?? 0 : 1,
+        maxSize: serverConfig?.maxResumableUploadSize,
+        multiple: Boolean(onFilesUpload),
         disabled: isDisabled
     });
 
@@ -92,7 +103,9 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
                     mb: 1
                 }}
             >
-                {isDragActive ? 'Drop your video here!' : 'Upload Video'}
+                {isDragActive
+                    ? 'Drop your files here!'
+                    : onFilesUpload ? 'Upload Videos or Photos' : 'Upload Video or Photo'}
             </Typography>
 
             <Typography
@@ -116,10 +129,26 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
                     textAlign: 'center'
                 }}
             >
-                MP4, AVI, MOV, WMV, FLV, WebM • Max 50MB
+                MP4, AVI, MOV, WMV, FLV, WebM, JPEG, PNG, BMP
+                {serverConfig && ` • Max ${formatMegabytes(serverConfig.maxResumableUploadSize)}`}
+                {serverConfig && onFilesUpload
+                    ? ` • Up to ${serverConfig.maxBatchFiles} files of ${formatMegabytes(serverConfig.maxFileSize)} at once`
+                    : ''}
             </Typography>
 
-            {!isDragActive && (
+            {uploadProgress && (
+                <Box sx={{ width: '100%', maxWidth: 360 }}>
+                    <LinearProgress
+                        variant="determinate"
+                        value={uploadProgress.total > 0 ? (uploadProgress.loaded / uploadProgress.total) * 100 : 0}
+                    />
+                    <Typography variant="caption" sx={{ color: designTokens.colors.text.secondary }}>
+                        Uploading {formatMegabytes(uploadProgress.loaded)} of {formatMegabytes(uploadProgress.total)}
+                    </Typography>
+                </Box>
+            )}
+
+            {!isDragActive && !uploadProgress && (
                 <Button
                     variant="contained"
                     onClick={(e) => {
@@ -132,7 +161,7 @@ export const UploadZone: React.FC<UploadZoneProps> = ({
                         minWidth: 200
                     }}
                 >
-                    Choose Video File
+                    {onFilesUpload ? 'Choose Files' : 'Choose File'}
                 </Button>
             )}
         </Box>
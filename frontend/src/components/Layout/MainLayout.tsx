@@ -1,9 +1,26 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Box, Container, AppBar, Toolbar, Typography } from '@mui/material';
 import { VideoStage } from '../VideoStage/VideoStage';
 import { ControlPanel } from '../Controls/ControlPanel';
+import { useVideoJob } from '../../hooks/useVideoJob';
+import { useBatchJob } from '../../hooks/useBatchJob';
+import { BlurIntensity } from '../../services/api';
+
+// BlurSlider steps 0-4 onto the backend's three blur levels
+const toBlurIntensity = (value: number): BlurIntensity => {
+    if (value <= 1) {
+        return 'low';
+    }
+    return value === 2 ? 'medium' : 'high';
+};
 
 export const MainLayout: React.FC = () => {
+    const [blurIntensity, setBlurIntensity] = useState(2);
+    const [referencePhotos, setReferencePhotos] = useState<File[]>([]);
+    const job = useVideoJob();
+    const batch = useBatchJob();
+    const isBatchMode = Boolean(batch.batchId) || batch.isUploading;
+
     return (
         <Box sx={{ minHeight: '100vh', backgroundColor: '#FFFFFF' }}>
             {/* Header */}
@@ -50,8 +67,57 @@ export const MainLayout: React.FC = () => {
             >
                 {/* Video Stage - 16:9 Cinema Mode */}
                 <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column', gap: 3 }}>
-                    <VideoStage />
-                    <ControlPanel />
+                    <VideoStage
+                        originalVideoUrl={job.originalVideoUrl}
+                        processedVideoUrl={job.processedVideoUrl}
+                        fileId={job.fileId}
+                        mediaType={job.mediaType}
+                        tracks={job.tracks}
+                        excludedTrackIds={job.excludedTrackIds}
+                        onToggleTrack={job.toggleTrack}
+                    />
+                    <ControlPanel
+                        onFileUpload={(file) => {
+                            batch.reset();
+                            job.uploadFile(file, referencePhotos);
+                        }}
+                        onFilesUpload={(files) => batch.uploadFiles(files, referencePhotos)}
+                        uploadProgress={job.uploadProgress}
+                        referencePhotos={referencePhotos}
+                        onReferencePhotosChange={setReferencePhotos}
+                        blurIntensity={blurIntensity}
+                        onBlurIntensityChange={setBlurIntensity}
+                        isProcessing={job.isBusy || batch.isBusy}
+                        hasVideo={Boolean(job.fileId) || isBatchMode}
+                        originalVideoUrl={job.originalVideoUrl}
+                        processedVideoUrl={job.processedVideoUrl}
+                        review={job.fileId ? {
+                            fileId: job.fileId,
+                            status: job.status,
+                            progress: job.progress,
+                            queuePosition: job.queuePosition,
+                            tracks: job.tracks,
+                            identities: job.identities,
+                            referencePhotos: job.referencePhotos,
+                            sceneCuts: job.sceneCuts,
+                            duration: job.duration,
+                            excludedTrackIds: job.excludedTrackIds,
+                            onToggleIdentity: job.toggleIdentity,
+                            onToggleTrack: job.toggleTrack,
+                            onDetect: () => job.detect(),
+                            onRender: () => job.render({ blurIntensity: toBlurIntensity(blurIntensity) }),
+                            onCancel: job.cancel,
+                            errorMessage: job.errorMessage
+                        } : undefined}
+                        batch={isBatchMode ? {
+                            batch: batch.batch,
+                            rejected: batch.rejected,
+                            isUploading: batch.isUploading,
+                            onProcess: () => batch.process({ blurIntensity: toBlurIntensity(blurIntensity) }),
+                            onClose: batch.reset,
+                            errorMessage: batch.errorMessage
+                        } : undefined}
+                    />
                 </Box>
             </Container>
         </Box>
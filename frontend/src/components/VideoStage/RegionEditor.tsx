@@ -0,0 +1,450 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import {
+    Box,
+    Button,
+    Card,
+    IconButton,
+    Slider,
+    ToggleButton,
+    ToggleButtonGroup,
+    Typography
+} from '@mui/material';
+import { Pause, Play } from 'lucide-react';
+import { useManualRegions } from '../../hooks/useManualRegions';
+import { getErrorMessage, ManualRegion, ManualRegionInput, RegionBox, RegionShape } from '../../services/api';
+import { designTokens } from '../../styles/theme';
+import { getContentRect, interpolateBox, toScreenBox } from './geometry';
+
+interface RegionEditorProps {
+    fileId: string;
+    videoUrl: string;
+}
+
+type DragMode = 'draw' | 'move' | 'resize';
+
+interface DragState {
+    mode: DragMode;
+    regionId?: string;
+    startX: number; // video pixels
+    startY: number;
+    origin: RegionBox;
+}
+
+const MIN_REGION_SIZE = 8; // video pixels
+const DEFAULT_REGION_DURATION = 3000; // ms
+const KEYFRAME_SNAP_MS = 40; // edits this close to a keyframe change it instead of adding one
+
+// Box of a region at a time; its own box is the first keyframe
+const regionBoxAt = (region: ManualRegion, time: number): RegionBox =>
+    interpolateBox([{ ...region, timestamp: region.startTime }, ...region.keyframes], time);
+
+const roundBox = (box: RegionBox): RegionBox => ({
+    x: Math.round(box.x),
+    y: Math.round(box.y),
+    width: Math.round(box.width),
+    height: Math.round(box.height)
+});
+
+// Moving a region at its in point changes its starting box; anywhere else it
+// adds (or replaces) a keyframe at the current time
+const setBoxAt = (region: ManualRegion, time: number, box: RegionBox): ManualRegionInput => {
+    if (Math.abs(time - region.startTime) <= KEYFRAME_SNAP_MS) {
+        return roundBox(box);
+    }
+
+    return {
+        keyframes: [
+            ...region.keyframes.filter(keyframe => Math.abs(keyframe.timestamp - time) > KEYFRAME_SNAP_MS),
+            { timestamp: time, ...roundBox(box) }
+        ]
+    };
+};
+
+// The region starts with the box it has at the new in point, keeping its motion
+const setInPoint = (region: ManualRegion, time: number): ManualRegionInput | null => {
+    if (time >= region.endTime) {
+        return null;
+    }
+
+    const keyframes = time < region.startTime
+        ? [{ timestamp: region.startTime, x: region.x, y: region.y, width: region.width, height: region.height }, ...region.keyframes]
+        : region.keyframes.filter(keyframe => keyframe.timestamp > time);
+
+    return { ...roundBox(regionBoxAt(region, time)), startTime: time, keyframes };
+};
+
+const setOutPoint = (region: ManualRegion, time: number): ManualRegionInput | null => {
+    if (time <= region.startTime) {
+        return null;
+    }
+
+    return { endTime: time, keyframes: region.keyframes.filter(keyframe => keyframe.timestamp <= time) };
+};
+
+const formatTime = (ms: number): string => {
+    const seconds = ms / 1000;
+    return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+};
+
+export const RegionEditor: React.FC<RegionEditorProps> = ({ fileId, videoUrl }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const overlayRef = useRef<HTMLDivElement>(null);
+    const [currentTime, setCurrentTime] = useState(0); // ms
+    const [duration, setDuration] = useState(0); // ms
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [, setLayoutVersion] = useState(0);
+    const [shapeTool, setShapeTool] = useState<RegionShape>('rectangle');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const [draftBox, setDraftBox] = useState<RegionBox | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    const { regions, isSaving, createRegion, updateRegion, deleteRegion } = useManualRegions(fileId);
+    const selectedRegion = regions.find(region => region.id === selectedId);
+
+    // Follow the video clock and re-layout the overlay when the player resizes
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) {
+            return;
+        }
+
+        const handleTime = () => setCurrentTime(Math.round(video.currentTime * 1000));
+        const handleMetadata = () => {
+            setDuration(Math.round(video.duration * 1000));
+            setLayoutVersion(version => version + 1);
+        };
+        const handlePlay = () => setIsPlaying(true);
+        const handlePause = () => setIsPlaying(false);
+        const resizeObserver = new ResizeObserver(() => setLayoutVersion(version => version + 1));
+
+        video.addEventListener('timeupdate', handleTime);
+        video.addEventListener('seeked', handleTime);
+        video.addEventListener('loadedmetadata', handleMetadata);
+        video.addEventListener('play', handlePlay);
+        video.addEventListener('pause', handlePause);
+        resizeObserver.observe(video);
+
+        return () => {
+            video.removeEventListener('timeupdate', handleTime);
+            video.removeEventListener('seeked', handleTime);
+            video.removeEventListener('loadedmetadata', handleMetadata);
+            video.removeEventListener('play', handlePlay);
+            video.removeEventListener('pause', handlePause);
+            resizeObserver.disconnect();
+        };
+    }, []);
+
+    const toVideoPoint = (event: React.PointerEvent) => {
+        const rect = getContentRect(videoRef.current);
+        const overlay = overlayRef.current;
+        if (!rect || !overlay) {
+            return null;
+        }
+
+        const bounds = overlay.getBoundingClientRect();
+        const x = (event.clientX - bounds.left - rect.offsetX) / rect.scale;
+        const y = (event.clientY - bounds.top - rect.offsetY) / rect.scale;
+
+        return {
+            x: Math.min(Math.max(x, 0), rect.videoWidth),
+            y: Math.min(Math.max(y, 0), rect.videoHeight)
+        };
+    };
+
+    const save = useCallback(async (action: () => Promise<unknown>) => {
+        try {
+            setErrorMessage(null);
+            await action();
+        } catch (error) {
+            setErrorMessage(getErrorMessage(error));
+        }
+    }, []);
+
+    const startDrag = (event: React.PointerEvent, mode: DragMode, region?: ManualRegion) => {
+        const point = toVideoPoint(event);
+        if (!point || isSaving) {
+            return;
+        }
+
+        event.stopPropagation();
+        videoRef.current?.pause();
+        overlayRef.current?.setPointerCapture(event.pointerId);
+
+        const origin = region ? regionBoxAt(region, currentTime) : { ...point, width: 0, height: 0 };
+        setSelectedId(region ? region.id : null);
+        setDrag({ mode, regionId: region?.id, startX: point.x, startY: point.y, origin });
+        setDraftBox(origin);
+    };
+
+    const handlePointerMove = (event: React.PointerEvent) => {
+        const point = drag && toVideoPoint(event);
+        const rect = getContentRect(videoRef.current);
+        if (!drag || !point || !rect) {
+            return;
+        }
+
+        const { origin } = drag;
+        const dx = point.x - drag.startX;
+        const dy = point.y - drag.startY;
+
+        if (drag.mode === 'draw') {
+            setDraftBox({
+                x: Math.min(drag.startX, point.x),
+                y: Math.min(drag.startY, point.y),
+                width: Math.abs(dx),
+                height: Math.abs(dy)
+            });
+        } else if (drag.mode === 'move') {
+            setDraftBox({
+                ...origin,
+                x: Math.min(Math.max(origin.x + dx, 0), rect.videoWidth - origin.width),
+                y: Math.min(Math.max(origin.y + dy, 0), rect.videoHeight - origin.height)
+            });
+        } else {
+            setDraftBox({
+                ...origin,
+                width: Math.min(Math.max(origin.width + dx, MIN_REGION_SIZE), rect.videoWidth - origin.x),
+                height: Math.min(Math.max(origin.height + dy, MIN_REGION_SIZE), rect.videoHeight - origin.y)
+            });
+        }
+    };
+
+    const handlePointerUp = () => {
+        if (!drag || !draftBox) {
+            return;
+        }
+
+        const box = draftBox;
+        const region = regions.find(current => current.id === drag.regionId);
+        setDrag(null);
+        setDraftBox(null);
+
+        if (drag.mode === 'draw') {
+            if (box.width < MIN_REGION_SIZE || box.height < MIN_REGION_SIZE) {
+                return;
+            }
+
+            const endTime = Math.min(currentTime + DEFAULT_REGION_DURATION, duration);
+            save(async () => {
+                const created = await createRegion({
+                    shape: shapeTool,
+                    ...roundBox(box),
+                    startTime: currentTime,
+                    endTime: endTime > currentTime ? endTime : currentTime + DEFAULT_REGION_DURATION
+                });
+                setSelectedId(created.id);
+            });
+        } else if (region) {
+            save(() => updateRegion(region.id, setBoxAt(region, currentTime, box)));
+        }
+    };
+
+    const seek = (time: number) => {
+        if (videoRef.current) {
+            videoRef.current.currentTime = time / 1000;
+            setCurrentTime(time);
+        }
+    };
+
+    const togglePlayback = () => {
+        const video = videoRef.current;
+        if (!video) {
+            return;
+        }
+
+        if (video.paused) {
+            video.play().catch(() => { });
+        } else {
+            video.pause();
+        }
+    };
+
+    const applyToSelected = (changes: ManualRegionInput | null) => {
+        if (selectedRegion && changes) {
+            save(() => updateRegion(selectedRegion.id, changes));
+        }
+    };
+
+    const rect = getContentRect(videoRef.current);
+    const isSelectedVisible = selectedRegion
+        && currentTime >= selectedRegion.startTime
+        && currentTime <= selectedRegion.endTime;
+
+    const renderRegion = (region: ManualRegion) => {
+        const isSelected = region.id === selectedId;
+        const isActive = currentTime >= region.startTime && currentTime <= region.endTime;
+        const box = isSelected && draftBox && drag?.mode !== 'draw' ? draftBox : regionBoxAt(region, currentTime);
+
+        if (!rect || (!isActive && !isSelected)) {
+            return null;
+        }
+
+        return (
+            <Box
+                key={region.id}
+                onPointerDown={isActive ? (event) => startDrag(event, 'move', region) : undefined}
+                sx={{
+                    position: 'absolute',
+                    ...toScreenBox(rect, box),
+                    borderRadius: region.shape === 'ellipse' ? '50%' : 0,
+                    border: `2px ${isActive ? 'solid' : 'dashed'} ${isSelected ? designTokens.colors.primary.main : '#FFFFFF'}`,
+                    backgroundColor: isSelected ? 'rgba(255, 69, 0, 0.25)' : 'rgba(255, 255, 255, 0.15)',
+                    opacity: isActive ? 1 : 0.5,
+                    cursor: isActive ? 'move' : 'default',
+                    pointerEvents: isActive ? 'auto' : 'none'
+                }}
+            >
+                {isSelected && isActive && (
+                    <Box
+                        onPointerDown={(event) => startDrag(event, 'resize', region)}
+                        sx={{
+                            position: 'absolute',
+                            right: -7,
+                            bottom: -7,
+                            width: 14,
+                            height: 14,
+                            backgroundColor: designTokens.colors.primary.main,
+                            border: '2px solid #FFFFFF',
+                            cursor: 'nwse-resize'
+                        }}
+                    />
+                )}
+            </Box>
+        );
+    };
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Card
+                sx={{
+                    position: 'relative',
+                    width: '100%',
+                    aspectRatio: '16/9',
+                    overflow: 'hidden',
+                    backgroundColor: '#000000'
+                }}
+            >
+                <video
+                    ref={videoRef}
+                    src={videoUrl}
+                    style={{ width: '100%', height: '100%', objectFit: 'contain' }}
+                    muted
+                    playsInline
+                />
+
+                {/* Drawing surface over the paused frame */}
+                <Box
+                    ref={overlayRef}
+                    onPointerDown={(event) => startDrag(event, 'draw')}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    sx={{ position: 'absolute', inset: 0, cursor: 'crosshair', touchAction: 'none' }}
+                >
+                    {regions.map(renderRegion)}
+
+                    {rect && draftBox && drag?.mode === 'draw' && (
+                        <Box
+                            sx={{
+                                position: 'absolute',
+                                ...toScreenBox(rect, draftBox),
+                                borderRadius: shapeTool === 'ellipse' ? '50%' : 0,
+                                border: `2px dashed ${designTokens.colors.primary.main}`,
+                                pointerEvents: 'none'
+                            }}
+                        />
+                    )}
+                </Box>
+            </Card>
+
+            {/* Timeline with the selected region's keyframes */}
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+                <IconButton onClick={togglePlayback} aria-label={isPlaying ? 'Pause' : 'Play'}>
+                    {isPlaying ? <Pause size={20} /> : <Play size={20} />}
+                </IconButton>
+                <Slider
+                    value={currentTime}
+                    min={0}
+                    max={duration || 1}
+                    step={10}
+                    onChange={(_, value) => seek(value as number)}
+                    marks={selectedRegion
+                        ? [selectedRegion.startTime, ...selectedRegion.keyframes.map(keyframe => keyframe.timestamp), selectedRegion.endTime]
+                            .map(value => ({ value }))
+                        : []}
+                    sx={{ color: designTokens.colors.primary.main }}
+                />
+                <Typography variant="body2" sx={{ minWidth: 96, fontWeight: 600 }}>
+                    {formatTime(currentTime)} / {formatTime(duration)}
+                </Typography>
+            </Box>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+                <ToggleButtonGroup
+                    exclusive
+                    size="small"
+                    value={selectedRegion ? selectedRegion.shape : shapeTool}
+                    onChange={(_, shape: RegionShape | null) => {
+                        if (!shape) {
+                            return;
+                        }
+                        setShapeTool(shape);
+                        applyToSelected(selectedRegion ? { shape } : null);
+                    }}
+                >
+                    <ToggleButton value="rectangle">▭ Box</ToggleButton>
+                    <ToggleButton value="ellipse">◯ Ellipse</ToggleButton>
+                </ToggleButtonGroup>
+
+                <Button
+                    variant="outlined"
+                    disabled={!selectedRegion || isSaving}
+                    onClick={() => selectedRegion && applyToSelected(setInPoint(selectedRegion, currentTime))}
+                >
+                    Set in
+                </Button>
+                <Button
+                    variant="outlined"
+                    disabled={!selectedRegion || isSaving}
+                    onClick={() => selectedRegion && applyToSelected(setOutPoint(selectedRegion, currentTime))}
+                >
+                    Set out
+                </Button>
+                <Button
+                    variant="outlined"
+                    disabled={!isSelectedVisible || isSaving}
+                    onClick={() => selectedRegion &&
+                        applyToSelected(setBoxAt(selectedRegion, currentTime, regionBoxAt(selectedRegion, currentTime)))}
+                >
+                    Add keyframe
+                </Button>
+                <Button
+                    variant="outlined"
+                    color="error"
+                    disabled={!selectedRegion || isSaving}
+                    onClick={() => {
+                        if (selectedRegion) {
+                            setSelectedId(null);
+                            save(() => deleteRegion(selectedRegion.id));
+                        }
+                    }}
+                >
+                    Delete
+                </Button>
+
+                <Typography variant="body2" sx={{ color: designTokens.colors.text.secondary }}>
+                    {selectedRegion
+                        ? `${formatTime(selectedRegion.startTime)} – ${formatTime(selectedRegion.endTime)}, ` +
+                        `${selectedRegion.keyframes.length} keyframes`
+                        : 'Pause and drag on the video to cover something the detector missed'}
+                </Typography>
+            </Box>
+
+            {errorMessage && (
+                <Typography variant="body2" sx={{ color: designTokens.colors.primary.dark, fontWeight: 600 }}>
+                    {errorMessage}
+                </Typography>
+            )}
+        </Box>
+    );
+};
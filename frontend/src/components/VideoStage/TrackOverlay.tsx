@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { Box, Typography } from '@mui/material';
+import { FaceTrack } from '../../services/api';
+import { designTokens } from '../../styles/theme';
+import { getContentRect, interpolateBox, toScreenBox } from './geometry';
+
+interface TrackOverlayProps {
+    videoRef: React.RefObject<HTMLVideoElement>;
+    tracks: FaceTrack[];
+    excludedTrackIds: string[];
+    onToggleTrack?: (trackId: string) => void;
+}
+
+// Detected faces drawn over the original video during review. Clicking a box
+// switches the person between blurred and kept in every scene they appear.
+export const TrackOverlay: React.FC<TrackOverlayProps> = ({
+    videoRef,
+    tracks,
+    excludedTrackIds,
+    onToggleTrack
+}) => {
+    const [currentTime, setCurrentTime] = useState(0); // ms
+    const [, setLayoutVersion] = useState(0);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) {
+            return;
+        }
+
+        const handleTime = () => setCurrentTime(Math.round(video.currentTime * 1000));
+        const handleLayout = () => setLayoutVersion(version => version + 1);
+        const resizeObserver = new ResizeObserver(handleLayout);
+
+        video.addEventListener('timeupdate', handleTime);
+        video.addEventListener('seeked', handleTime);
+        video.addEventListener('loadedmetadata', handleLayout);
+        resizeObserver.observe(video);
+
+        return () => {
+            video.removeEventListener('timeupdate', handleTime);
+            video.removeEventListener('seeked', handleTime);
+            video.removeEventListener('loadedmetadata', handleLayout);
+            resizeObserver.disconnect();
+        };
+    }, [videoRef]);
+
+    const rect = getContentRect(videoRef.current);
+
+    if (!rect) {
+        return null;
+    }
+
+    return (
+        <Box sx={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+            {tracks
+                .filter(track => currentTime >= track.startTime && currentTime <= track.endTime)
+                .map(track => {
+                    const isKept = excludedTrackIds.includes(track.id);
+                    const color = isKept ? '#2E7D32' : designTokens.colors.primary.main;
+
+                    return (
+                        <Box
+                            key={track.id}
+                            onClick={() => onToggleTrack?.(track.id)}
+                            sx={{
+                                position: 'absolute',
+                                ...toScreenBox(rect, interpolateBox(track.keyframes, currentTime)),
+                                border: `2px ${isKept ? 'dashed' : 'solid'} ${color}`,
+                                backgroundColor: isKept ? 'transparent' : 'rgba(255, 69, 0, 0.2)',
+                                cursor: onToggleTrack ? 'pointer' : 'default',
+                                pointerEvents: 'auto'
+                            }}
+                        >
+                            <Typography
+                                variant="caption"
+                                sx={{
+                                    position: 'absolute',
+                                    top: -22,
+                                    left: 0,
+                                    px: 0.5,
+                                    color: '#FFFFFF',
+                                    backgroundColor: color,
+                                    fontWeight: 600,
+                                    whiteSpace: 'nowrap'
+                                }}
+                            >
+                                {isKept ? 'Keep' : 'Blur'}
+                            </Typography>
+                        </Box>
+                    );
+                })}
+        </Box>
+    );
+};
@@ -1,23 +1,50 @@
 import React, { useState, useRef, useCallback } from 'react';
-import { Box, Card, Typography, Paper } from '@mui/material';
+import { Box, Button, Card, Typography, Paper } from '@mui/material';
 import ReactCompareSlider from 'react-compare-slider';
 import { useVideoSync } from '../../hooks/useVideoSync';
+import { RegionEditor } from './RegionEditor';
+import { TrackOverlay } from './TrackOverlay';
+import { FaceTrack, MediaType } from '../../services/api';
 import { designTokens } from '../../styles/theme';
 
 interface VideoStageProps {
     originalVideoUrl?: string;
     processedVideoUrl?: string;
     isLoading?: boolean;
+    fileId?: string; // enables the manual region editor
+    mediaType?: MediaType; // photos are shown as images, without playback
+    tracks?: FaceTrack[]; // detections under review, drawn over the original video
+    excludedTrackIds?: string[];
+    onToggleTrack?: (trackId: string) => void;
 }
 
+// Photos have nothing to play or sync
+const StillImage: React.FC<{ src: string; alt: string }> = ({ src, alt }) => (
+    <img
+        src={src}
+        alt={alt}
+        style={{
+            width: '100%',
+            height: '100%',
+            objectFit: 'contain'
+        }}
+    />
+);
+
 export const VideoStage: React.FC<VideoStageProps> = ({
     originalVideoUrl,
     processedVideoUrl,
-    isLoading = false
+    isLoading = false,
+    fileId,
+    mediaType = 'video',
+    tracks,
+    excludedTrackIds = [],
+    onToggleTrack
 }) => {
     const originalVideoRef = useRef<HTMLVideoElement>(null);
     const processedVideoRef = useRef<HTMLVideoElement>(null);
     const [isPlaying, setIsPlaying] = useState(false);
+    const [isEditingRegions, setIsEditingRegions] = useState(false);
 
     // Use our custom video sync hook
     const { syncVideos, handlePlay, handlePause, handleSeek } = useVideoSync({
@@ -91,7 +118,14 @@ export const VideoStage: React.FC<VideoStageProps> = ({
         );
     }
 
-    return (
+    const isImage = mediaType === 'image';
+
+    // The region editor and the track overlay work on a playing video
+    const canEditRegions = Boolean(fileId && originalVideoUrl && !isImage);
+
+    const stage = canEditRegions && isEditingRegions ? (
+        <RegionEditor fileId={fileId as string} videoUrl={originalVideoUrl as string} />
+    ) : (
         <Card
             sx={{
                 position: 'relative',
@@ -153,20 +187,24 @@ export const VideoStage: React.FC<VideoStageProps> = ({
                                 backgroundColor: '#000000'
                             }}
                         >
-                            <video
-                                ref={originalVideoRef}
-                                src={originalVideoUrl}
-                                onPlay={handlePlay}
-                                onPause={handlePause}
-                                onSeeked={handleSeek}
-                                style={{
-                                    width: '100%',
-                                    height: '100%',
-                                    objectFit: 'contain'
-                                }}
-                                muted
-                                playsInline
-                            />
+                            {isImage ? (
+                                <StillImage src={originalVideoUrl as string} alt="Original" />
+                            ) : (
+                                <video
+                                    ref={originalVideoRef}
+                                    src={originalVideoUrl}
+                                    onPlay={handlePlay}
+                                    onPause={handlePause}
+                                    onSeeked={handleSeek}
+                                    style={{
+                                        width: '100%',
+                                        height: '100%',
+                                        objectFit: 'contain'
+                                    }}
+                                    muted
+                                    playsInline
+                                />
+                            )}
                             <Box
                                 sx={{
                                     position: 'absolute',
@@ -194,20 +232,24 @@ export const VideoStage: React.FC<VideoStageProps> = ({
                                 backgroundColor: '#000000'
                             }}
                         >
-                            <video
-                                ref={processedVideoRef}
-                                src={processedVideoUrl}
-                                onPlay={handlePlay}
-                                onPause={handlePause}
-                                onSeeked={handleSeek}
-                                style={{
-                                    width: '100%',
-                                    height: '100%',
-                                    objectFit: 'contain'
-                                }}
-                                muted
-                                playsInline
-                            />
+                            {isImage ? (
+                                <StillImage src={processedVideoUrl as string} alt="Redacted" />
+                            ) : (
+                                <video
+                                    ref={processedVideoRef}
+                                    src={processedVideoUrl}
+                                    onPlay={handlePlay}
+                                    onPause={handlePause}
+                                    onSeeked={handleSeek}
+                                    style={{
+                                        width: '100%',
+                                        height: '100%',
+                                        objectFit: 'contain'
+                                    }}
+                                    muted
+                                    playsInline
+                                />
+                            )}
                             <Box
                                 sx={{
                                     position: 'absolute',
@@ -229,23 +271,53 @@ export const VideoStage: React.FC<VideoStageProps> = ({
                 ) : (
                     // Single video view (when only one video is available)
                     <Box sx={{ width: '100%', height: '100%', position: 'relative' }}>
-                        <video
-                            ref={originalVideoRef || processedVideoRef}
-                            src={originalVideoUrl || processedVideoUrl}
-                            onPlay={handlePlay}
-                            onPause={handlePause}
-                            onSeeked={handleSeek}
-                            style={{
-                                width: '100%',
-                                height: '100%',
-                                objectFit: 'contain'
-                            }}
-                            controls
-                            playsInline
-                        />
+                        {isImage ? (
+                            <StillImage src={(originalVideoUrl || processedVideoUrl) as string} alt="Uploaded photo" />
+                        ) : (
+                            <video
+                                ref={originalVideoRef || processedVideoRef}
+                                src={originalVideoUrl || processedVideoUrl}
+                                onPlay={handlePlay}
+                                onPause={handlePause}
+                                onSeeked={handleSeek}
+                                style={{
+                                    width: '100%',
+                                    height: '100%',
+                                    objectFit: 'contain'
+                                }}
+                                controls
+                                playsInline
+                            />
+                        )}
+                        {tracks && !processedVideoUrl && !isImage && (
+                            <TrackOverlay
+                                videoRef={originalVideoRef}
+                                tracks={tracks}
+                                excludedTrackIds={excludedTrackIds}
+                                onToggleTrack={onToggleTrack}
+                            />
+                        )}
                     </Box>
                 )}
             </Box>
         </Card>
     );
+
+    if (!canEditRegions) {
+        return stage;
+    }
+
+    return (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+            {stage}
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+                <Button
+                    variant={isEditingRegions ? 'contained' : 'outlined'}
+                    onClick={() => setIsEditingRegions(editing => !editing)}
+                >
+                    {isEditingRegions ? '✅ Done editing regions' : '✏️ Edit regions'}
+                </Button>
+            </Box>
+        </Box>
+    );
 };
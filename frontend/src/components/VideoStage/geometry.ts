@@ -0,0 +1,62 @@
+import { RegionBox } from '../../services/api';
+
+export interface ContentRect {
+    scale: number;
+    offsetX: number;
+    offsetY: number;
+    videoWidth: number;
+    videoHeight: number;
+}
+
+// Box at a time between timed boxes, interpolated linearly the same way the
+// backend renders it; before the first or after the last box it holds still
+export const interpolateBox = (frames: (RegionBox & { timestamp: number })[], time: number): RegionBox => {
+    let box: RegionBox = frames[0];
+
+    for (let index = 0; index < frames.length - 1; index++) {
+        const current = frames[index];
+        const next = frames[index + 1];
+
+        if (time < current.timestamp) {
+            break;
+        }
+        if (time >= next.timestamp) {
+            box = next;
+            continue;
+        }
+
+        const ratio = (time - current.timestamp) / (next.timestamp - current.timestamp);
+        return {
+            x: current.x + (next.x - current.x) * ratio,
+            y: current.y + (next.y - current.y) * ratio,
+            width: current.width + (next.width - current.width) * ratio,
+            height: current.height + (next.height - current.height) * ratio
+        };
+    }
+
+    return { x: box.x, y: box.y, width: box.width, height: box.height };
+};
+
+// Where the letterboxed picture sits inside a video element with objectFit: contain
+export const getContentRect = (video: HTMLVideoElement | null): ContentRect | null => {
+    if (!video || !video.videoWidth || !video.videoHeight) {
+        return null;
+    }
+
+    const scale = Math.min(video.clientWidth / video.videoWidth, video.clientHeight / video.videoHeight);
+    return {
+        scale,
+        offsetX: (video.clientWidth - video.videoWidth * scale) / 2,
+        offsetY: (video.clientHeight - video.videoHeight * scale) / 2,
+        videoWidth: video.videoWidth,
+        videoHeight: video.videoHeight
+    };
+};
+
+// CSS position of a box given in video pixels
+export const toScreenBox = (rect: ContentRect, box: RegionBox) => ({
+    left: rect.offsetX + box.x * rect.scale,
+    top: rect.offsetY + box.y * rect.scale,
+    width: box.width * rect.scale,
+    height: box.height * rect.scale
+});
@@ -0,0 +1,89 @@
+import { useState, useCallback } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import {
+    batchApi,
+    getErrorMessage,
+    BatchStatusInfo,
+    DetectOptions,
+    RenderOptions,
+    UploadedBatch
+} from '../services/api';
+
+interface BatchJobReturn {
+    batchId?: string;
+    batch?: BatchStatusInfo;
+    rejected: UploadedBatch['rejected'];
+    isUploading: boolean;
+    isBusy: boolean;
+    errorMessage: string | null;
+    uploadFiles: (files: File[], referencePhotos?: File[]) => Promise<void>;
+    process: (options: DetectOptions & RenderOptions) => Promise<void>;
+    reset: () => void;
+}
+
+// Many files uploaded together, processed one after another on the server
+export const useBatchJob = (): BatchJobReturn => {
+    const queryClient = useQueryClient();
+    const [batchId, setBatchId] = useState<string>();
+    const [rejected, setRejected] = useState<UploadedBatch['rejected']>([]);
+    const [isUploading, setIsUploading] = useState(false);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    // Poll while the backend works through the files
+    const { data: batch } = useQuery(
+        ['batchStatus', batchId],
+        () => batchApi.getStatus(batchId as string),
+        {
+            enabled: Boolean(batchId),
+            staleTime: 0,
+            refetchInterval: (data) => (data?.status === 'processing' ? 2000 : false)
+        }
+    );
+
+    const uploadFiles = useCallback(async (files: File[], referencePhotos: File[] = []) => {
+        try {
+            setErrorMessage(null);
+            setIsUploading(true);
+
+            const uploaded = await batchApi.upload(files, referencePhotos);
+            setRejected(uploaded.rejected);
+            setBatchId(uploaded.batchId);
+        } catch (error) {
+            setErrorMessage(getErrorMessage(error));
+        } finally {
+            setIsUploading(false);
+        }
+    }, []);
+
+    const process = useCallback(async (options: DetectOptions & RenderOptions) => {
+        if (!batchId) {
+            return;
+        }
+
+        try {
+            setErrorMessage(null);
+            const status = await batchApi.process(batchId, options);
+            queryClient.setQueryData(['batchStatus', batchId], status);
+        } catch (error) {
+            setErrorMessage(getErrorMessage(error));
+        }
+    }, [batchId, queryClient]);
+
+    const reset = useCallback(() => {
+        setBatchId(undefined);
+        setRejected([]);
+        setErrorMessage(null);
+    }, []);
+
+    return {
+        batchId,
+        batch,
+        rejected,
+        isUploading,
+        isBusy: isUploading || batch?.status === 'processing',
+        errorMessage,
+        uploadFiles,
+        process,
+        reset
+    };
+};
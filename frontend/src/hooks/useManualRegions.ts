@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from 'react-query';
+import { regionsApi, ManualRegion, ManualRegionInput } from '../services/api';
+
+interface ManualRegionsReturn {
+    regions: ManualRegion[];
+    isLoading: boolean;
+    isSaving: boolean;
+    error: unknown;
+    createRegion: (region: ManualRegionInput) => Promise<ManualRegion>;
+    updateRegion: (regionId: string, changes: ManualRegionInput) => Promise<ManualRegion>;
+    deleteRegion: (regionId: string) => Promise<void>;
+}
+
+// Manual redaction regions of an uploaded file, kept in sync with the backend
+// so the next render picks up every change
+export const useManualRegions = (fileId?: string): ManualRegionsReturn => {
+    const queryClient = useQueryClient();
+    const queryKey = ['regions', fileId];
+
+    const { data: regions = [], isLoading, error } = useQuery(
+        queryKey,
+        () => regionsApi.list(fileId as string),
+        { enabled: Boolean(fileId), staleTime: 0 }
+    );
+
+    const refresh = () => queryClient.invalidateQueries(queryKey);
+
+    const createMutation = useMutation(
+        (region: ManualRegionInput) => regionsApi.create(fileId as string, region),
+        { onSuccess: refresh }
+    );
+
+    const updateMutation = useMutation(
+        ({ regionId, changes }: { regionId: string; changes: ManualRegionInput }) =>
+            regionsApi.update(fileId as string, regionId, changes),
+        {
+            // Show the saved region straight away instead of waiting for the refetch
+            onSuccess: (updated) => {
+                queryClient.setQueryData<ManualRegion[]>(queryKey, (current = []) =>
+                    current.map(region => (region.id === updated.id ? updated : region))
+                );
+                refresh();
+            }
+        }
+    );
+
+    const deleteMutation = useMutation(
+        (regionId: string) => regionsApi.remove(fileId as string, regionId),
+        { onSuccess: refresh }
+    );
+
+    return {
+        regions,
+        isLoading,
+        isSaving: createMutation.isLoading || updateMutation.isLoading || deleteMutation.isLoading,
+        error: error || createMutation.error || updateMutation.error || deleteMutation.error,
+        createRegion: createMutation.mutateAsync,
+        updateRegion: (regionId, changes) => updateMutation.mutateAsync({ regionId, changes }),
+        deleteRegion: deleteMutation.mutateAsync
+    };
+};
@@ -0,0 +1,13 @@
+import { useQuery } from 'react-query';
+import { configApi, ServerConfig } from '../services/api';
+
+// Fetched once; undefined until the server answered, and the server checks
+// every limit again anyway
+export const useServerConfig = (): ServerConfig | undefined => {
+    const { data } = useQuery('serverConfig', configApi.get, {
+        staleTime: Infinity,
+        refetchOnWindowFocus: false
+    });
+
+    return data;
+};
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from 'react-query';
+import {
+    videoApi,
+    getErrorMessage,
+    DetectOptions,
+    FaceIdentity,
+    FaceTrack,
+    JobStatus,
+    MediaType,
+    ReferencePhoto,
+    RenderOptions,
+    SceneCut,
+    UploadProgress
+} from '../services/api';
+
+interface VideoJobReturn {
+    fileId?: string;
+    mediaType?: MediaType;
+    status?: JobStatus;
+    progress: number;
+    queuePosition: number | null;
+    originalVideoUrl?: string;
+    processedVideoUrl?: string;
+    tracks?: FaceTrack[];
+    identities?: FaceIdentity[];
+    referencePhotos?: ReferencePhoto[];
+    sceneCuts?: SceneCut[];
+    duration?: number;
+    excludedTrackIds: string[];
+    uploadProgress: UploadProgress | null; // set while a file is being sent
+    isBusy: boolean;
+    errorMessage: string | null;
+    uploadFile: (file: File, referencePhotos?: File[]) => Promise<void>;
+    detect: (options?: DetectOptions) => Promise<void>;
+    toggleTrack: (trackId: string) => void;
+    toggleIdentity: (identityId: string) => void;
+    render: (options: RenderOptions) => Promise<void>;
+    cancel: () => Promise<void>;
+}
+
+const BUSY_STATUSES: JobStatus[] = ['queued', 'detecting', 'rendering'];
+
+const STATUS_ERRORS: Partial<Record<JobStatus, string>> = {
+    failed: 'Processing failed, please try again',
+    interrupted: 'Processing was interrupted by a server restart, please try again'
+};
+
+// One uploaded video going through detection, review and rendering
+export const useVideoJob = (): VideoJobReturn => {
+    const queryClient = useQueryClient();
+    const [fileId, setFileId] = useState<string>();
+    const [mediaType, setMediaType] = useState<MediaType>();
+    const [originalVideoUrl, setOriginalVideoUrl] = useState<string>();
+    const [excludedTrackIds, setExcludedTrackIds] = useState<string[]>([]);
+    const [renderCount, setRenderCount] = useState(0);
+    const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+    const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+    // Poll while the backend is working on the job
+    const { data: statusInfo } = useQuery(
+        ['videoStatus', fileId],
+        () => videoApi.getStatus(fileId as string),
+        {
+            enabled: Boolean(fileId),
+            staleTime: 0,
+            refetchInterval: (data) => (data && BUSY_STATUSES.includes(data.status) ? 1000 : false)
+        }
+    );
+
+    const status = statusInfo?.status;
+
+    const { data: detection } = useQuery(
+        ['detections', fileId],
+        () => videoApi.getDetections(fileId as string),
+        {
+            // A render cut off by a restart can be retried with the same detections
+            enabled: Boolean(fileId) && (status === 'reviewing' || status === 'interrupted'),
+            staleTime: Infinity,
+            retry: false,
+            onSuccess: (result) => setExcludedTrackIds(result.excludedTrackIds)
+        }
+    );
+
+    // The object URL holds the whole file in memory, release it with the job
+    useEffect(() => {
+        return () => {
+            if (originalVideoUrl) {
+                URL.revokeObjectURL(originalVideoUrl);
+            }
+        };
+    }, [originalVideoUrl]);
+
+    const run = useCallback(async (action: () => Promise<void>) => {
+        try {
+            setErrorMessage(null);
+            await action();
+        } catch (error) {
+            setErrorMessage(getErrorMessage(error));
+        }
+    }, []);
+
+    const uploadFile = useCallback((file: File, referencePhotos: File[] = []) => run(async () => {
+        setUploadProgress({ loaded: 0, total: file.size });
+
+        let uploaded;
+        try {
+            uploaded = await videoApi.upload(file, referencePhotos, setUploadProgress);
+        } finally {
+            setUploadProgress(null);
+        }
+
+        setExcludedTrackIds([]);
+        setOriginalVideoUrl(URL.createObjectURL(file));
+        setMediaType(uploaded.mediaType);
+        setFileId(uploaded.fileId);
+    }), [run]);
+
+    const detect = useCallback((options: DetectOptions = {}) => run(async () => {
+        if (!fileId) {
+            return;
+        }
+
+        await videoApi.detect(fileId, options);
+        queryClient.removeQueries(['detections', fileId]);
+        await queryClient.invalidateQueries(['videoStatus', fileId]);
+    }), [fileId, queryClient, run]);
+
+    // A person is kept only when every one of their tracks is
+    const toggleIdentity = useCallback((identityId: string) => {
+        const identity = detection?.identities.find(current => current.id === identityId);
+        if (!identity) {
+            return;
+        }
+
+        setExcludedTrackIds(current => {
+            const isKept = identity.trackIds.every(id => current.includes(id));
+            const others = current.filter(id => !identity.trackIds.includes(id));
+            return isKept ? others : [...others, ...identity.trackIds];
+        });
+    }, [detection]);
+
+    // Only the one appearance; identities are grouped by likeness and can mix
+    // up two people, so keeping a whole person is a separate, explicit choice
+    const toggleTrack = useCallback((trackId: string) => {
+        setExcludedTrackIds(current => (current.includes(trackId)
+            ? current.filter(id => id !== trackId)
+            : [...current, trackId]));
+    }, []);
+
+    const render = useCallback((options: RenderOptions) => run(async () => {
+        if (!fileId) {
+            return;
+        }
+
+        await videoApi.render(fileId, options, excludedTrackIds);
+        setRenderCount(count => count + 1);
+        await queryClient.invalidateQueries(['videoStatus', fileId]);
+    }), [fileId, excludedTrackIds, queryClient, run]);
+
+    const cancel = useCallback(() => run(async () => {
+        if (!fileId) {
+            return;
+        }
+
+        await videoApi.cancel(fileId);
+        await queryClient.invalidateQueries(['videoStatus', fileId]);
+    }), [fileId, queryClient, run]);
+
+    return {
+        fileId,
+        mediaType,
+        status,
+        progress: statusInfo?.progress ?? 0,
+        queuePosition: statusInfo?.queuePosition ?? null,
+        originalVideoUrl,
+        // A new query string per render so the player drops the previous output
+        processedVideoUrl: fileId && status === 'completed'
+            ? `${videoApi.downloadUrl(fileId)}&render=${renderCount}`
+            : undefined,
+        tracks: detection?.tracks,
+        identities: detection?.identities,
+        referencePhotos: detection?.referencePhotos,
+        sceneCuts: detection?.sceneCuts,
+        duration: detection?.duration,
+        excludedTrackIds,
+        uploadProgress,
+        isBusy: Boolean(uploadProgress) || Boolean(status && BUSY_STATUSES.includes(status)),
+        errorMessage: errorMessage || (status && STATUS_ERRORS[status]) || null,
+        uploadFile,
+        detect,
+        toggleTrack,
+        toggleIdentity,
+        render,
+        cancel
+    };
+};
@@ -0,0 +1,472 @@
+import axios from 'axios';
+
+export const apiClient = axios.create({
+    baseURL: `${import.meta.env.VITE_API_URL || ''}/api`,
+});
+
+interface ApiResponse<T> {
+    success: boolean;
+    data: T;
+    message?: string;
+}
+
+export type JobStatus =
+    | 'uploaded'
+    | 'processing'
+    | 'queued'
+    | 'detecting'
+    | 'reviewing'
+    | 'rendering'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'interrupted' // the server restarted while the job was running
+    | 'expired';
+
+export interface JobTransition {
+    from: JobStatus | null; // null for the upload
+    to: JobStatus;
+    at: string;
+}
+
+// Photo of someone who must stay unblurred, uploaded with the video
+export interface ReferencePhoto {
+    id: string;
+    originalName: string;
+}
+
+export type MediaType = 'video' | 'image';
+
+export interface UploadedFile {
+    fileId: string;
+    accessToken: string; // proves ownership of the job, only handed out at upload
+    originalName: string;
+    size: number;
+    mimetype: string;
+    mediaType: MediaType;
+    uploadedAt: string;
+    expiresAt: string;
+    referencePhotos: ReferencePhoto[];
+}
+
+// Limits set in the server's configuration
+export interface ServerConfig {
+    maxFileSize: number; // bytes, per file in one request such as a batch
+    maxResumableUploadSize: number; // bytes, single files sent in chunks
+    maxBatchFiles: number;
+    maxReferencePhotos: number;
+    maxArchiveFiles: number;
+    fileExpiryMs: number;
+    allowedTypes: string[];
+    referencePhotoTypes: string[];
+}
+
+// A file sent in chunks; offset is how many bytes the server has
+export interface UploadSessionInfo {
+    uploadId: string;
+    originalName: string;
+    size: number;
+    offset: number;
+    maxSize: number;
+    expiresAt: string;
+    accessToken?: string; // only in the answer that created the session
+}
+
+export interface UploadProgress {
+    loaded: number; // bytes
+    total: number;
+}
+
+export interface JobStatusInfo {
+    fileId: string;
+    status: JobStatus;
+    statusChangedAt: string | null;
+    statusHistory: JobTransition[];
+    createdAt: string;
+    expiresAt: string;
+    timeRemaining: number;
+    downloadUrl: string | null;
+    progress: number;
+    queuePosition: number | null; // set while the job waits for a worker
+}
+
+export interface TrackKeyframe {
+    timestamp: number;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    confidence: number;
+}
+
+// A detected face followed through the video
+export interface FaceTrack {
+    id: string;
+    startTime: number;
+    endTime: number;
+    keyframes: TrackKeyframe[];
+    confidence: number;
+    identityId?: string;
+    referenceId?: string; // reference photo the person was matched to
+}
+
+// Tracks the detector believes show the same person
+export interface FaceIdentity {
+    id: string;
+    trackIds: string[];
+}
+
+// Hard cut between two shots; no track spans one
+export interface SceneCut {
+    index: number;
+    timestamp: number;
+    score: number;
+}
+
+export interface DetectionResult {
+    fileId: string;
+    status: JobStatus;
+    fps: number;
+    duration: number;
+    analyzedFrames: number;
+    detectedAt: string;
+    tracks: FaceTrack[];
+    identities: FaceIdentity[];
+    sceneCuts: SceneCut[];
+    referencePhotos: ReferencePhoto[];
+    excludedTrackIds: string[];
+}
+
+export type BlurIntensity = 'low' | 'medium' | 'high';
+export type ObscureStyle = 'gaussian' | 'pixelate' | 'solid' | 'mask';
+
+export interface DetectOptions {
+    detectionMode?: 'auto' | 'conservative' | 'aggressive' | 'manual';
+}
+
+export interface RenderOptions {
+    blurIntensity?: BlurIntensity;
+    obscureStyle?: ObscureStyle;
+    obscureOptions?: { color?: string; pixelSize?: number; sticker?: string };
+}
+
+// Files uploaded together and processed with one settings profile
+export type BatchFileStatus = JobStatus;
+
+export interface BatchFile {
+    fileId: string;
+    originalName: string;
+    status: BatchFileStatus;
+    progress: number;
+    downloadUrl: string | null;
+}
+
+export interface BatchStatusInfo {
+    batchId: string;
+    status: 'uploaded' | 'processing' | 'completed';
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
+    progress: number;
+    counts: Partial<Record<BatchFileStatus, number>>;
+    files: BatchFile[];
+}
+
+export interface UploadedBatch {
+    batchId: string;
+    accessToken: string; // for the batch routes, each file has its own as well
+    files: UploadedFile[];
+    rejected: { originalName: string; message: string }[];
+}
+
+export type RegionShape = 'rectangle' | 'ellipse';
+
+// Boxes are in source video pixels, times in milliseconds
+export interface RegionBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface RegionKeyframe extends RegionBox {
+    timestamp: number;
+}
+
+export interface ManualRegion extends RegionBox {
+    id: string;
+    shape: RegionShape;
+    startTime: number;
+    endTime: number;
+    keyframes: RegionKeyframe[];
+    label?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export type ManualRegionInput = Partial<Omit<ManualRegion, 'id' | 'createdAt' | 'updatedAt'>>;
+
+// Pull the server's message out of failed requests so it can be shown as is
+export const getErrorMessage = (error: unknown): string => {
+    if (axios.isAxiosError(error)) {
+        return error.response?.data?.message || error.message;
+    }
+    return error instanceof Error ? error.message : 'Something went wrong';
+};
+
+// Access tokens handed out at upload, by file, batch or upload session id. The server answers
+// any job request without the right token as if the job didn't exist
+const accessTokens = new Map<string, string>();
+
+const rememberToken = (id: string, token: string): void => {
+    accessTokens.set(id, token);
+};
+
+const withToken = (id: string) => ({
+    headers: { 'X-Job-Token': accessTokens.get(id) || '' }
+});
+
+// Links and media elements can't send headers, so their URLs carry the token
+const tokenQuery = (id: string): string => `token=${encodeURIComponent(accessTokens.get(id) || '')}`;
+
+export const configApi = {
+    get: async (): Promise<ServerConfig> => {
+        const response = await apiClient.get<ApiResponse<ServerConfig>>('/config');
+        return response.data.data;
+    },
+};
+
+export const regionsApi = {
+    list: async (fileId: string): Promise<ManualRegion[]> => {
+        const response = await apiClient.get<ApiResponse<{ regions: ManualRegion[] }>>(
+            `/regions/${fileId}`,
+            withToken(fileId)
+        );
+        return response.data.data.regions;
+    },
+
+    create: async (fileId: string, region: ManualRegionInput): Promise<ManualRegion> => {
+        const response = await apiClient.post<ApiResponse<ManualRegion>>(
+            `/regions/${fileId}`,
+            region,
+            withToken(fileId)
+        );
+        return response.data.data;
+    },
+
+    update: async (fileId: string, regionId: string, changes: ManualRegionInput): Promise<ManualRegion> => {
+        const response = await apiClient.put<ApiResponse<ManualRegion>>(
+            `/regions/${fileId}/${regionId}`,
+            changes,
+            withToken(fileId)
+        );
+        return response.data.data;
+    },
+
+    remove: async (fileId: string, regionId: string): Promise<void> => {
+        await apiClient.delete(`/regions/${fileId}/${regionId}`, withToken(fileId));
+    },
+};
+
+const CHUNK_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_CHUNK_ATTEMPTS = 5;
+
+// The same file picked again, even after a reload, continues its unfinished upload
+const uploadSessionKey = (file: File): string =>
+    `penguinblur-upload:${file.name}:${file.size}:${file.lastModified}`;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const uploadsApi = {
+    createSession: async (file: File): Promise<UploadSessionInfo> => {
+        const response = await apiClient.post<ApiResponse<UploadSessionInfo>>('/upload/sessions', {
+            filename: file.name,
+            mimetype: file.type,
+            size: file.size
+        });
+        return response.data.data;
+    },
+
+    getSession: async (uploadId: string): Promise<UploadSessionInfo> => {
+        const response = await apiClient.get<ApiResponse<UploadSessionInfo>>(
+            `/upload/sessions/${uploadId}`,
+            withToken(uploadId)
+        );
+        return response.data.data;
+    },
+
+    sendChunk: async (
+        uploadId: string,
+        offset: number,
+        chunk: Blob,
+        onProgress?: (loaded: number) => void
+    ): Promise<UploadSessionInfo> => {
+        const response = await apiClient.patch<ApiResponse<UploadSessionInfo>>(`/upload/sessions/${uploadId}`, chunk, {
+            headers: {
+                ...withToken(uploadId).headers,
+                'Content-Type': 'application/offset+octet-stream',
+                'Upload-Offset': String(offset)
+            },
+            onUploadProgress: (event) => onProgress?.(event.loaded)
+        });
+        return response.data.data;
+    },
+
+    finalize: async (uploadId: string, referencePhotos: File[] = []): Promise<UploadedFile> => {
+        const formData = new FormData();
+        referencePhotos.forEach(photo => formData.append('references', photo));
+
+        const response = await apiClient.post<ApiResponse<UploadedFile>>(
+            `/upload/sessions/${uploadId}/finalize`,
+            formData,
+            withToken(uploadId)
+        );
+        return response.data.data;
+    },
+
+    cancel: async (uploadId: string): Promise<void> => {
+        await apiClient.delete(`/upload/sessions/${uploadId}`, withToken(uploadId));
+    },
+};
+
+// Reuses the session stored for this file while the server still has it.
+// Stored as "<uploadId> <accessToken>"
+const openUploadSession = async (file: File): Promise<UploadSessionInfo> => {
+    const stored = localStorage.getItem(uploadSessionKey(file));
+
+    if (stored) {
+        const [uploadId, accessToken] = stored.split(' ');
+        rememberToken(uploadId, accessToken);
+
+        try {
+            return await uploadsApi.getSession(uploadId);
+        } catch (error) {
+            localStorage.removeItem(uploadSessionKey(file));
+        }
+    }
+
+    const session = await uploadsApi.createSession(file);
+    rememberToken(session.uploadId, session.accessToken || '');
+    localStorage.setItem(uploadSessionKey(file), `${session.uploadId} ${session.accessToken}`);
+    return session;
+};
+
+export const videoApi = {
+    // Sent in chunks, so a dropped connection retries only the current chunk
+    // and a page reload resumes where the upload stopped. Reference photos show
+    // people who must stay unblurred.
+    upload: async (
+        file: File,
+        referencePhotos: File[] = [],
+        onProgress?: (progress: UploadProgress) => void
+    ): Promise<UploadedFile> => {
+        const session = await openUploadSession(file);
+        let offset = session.offset;
+        let attempt = 0;
+
+        onProgress?.({ loaded: offset, total: file.size });
+
+        while (offset < file.size) {
+            const start = offset;
+
+            try {
+                const updated = await uploadsApi.sendChunk(
+                    session.uploadId,
+                    start,
+                    file.slice(start, start + CHUNK_SIZE),
+                    (loaded) => onProgress?.({ loaded: start + loaded, total: file.size })
+                );
+                offset = updated.offset;
+                attempt = 0;
+            } catch (error) {
+                attempt += 1;
+                if (attempt >= MAX_CHUNK_ATTEMPTS) {
+                    throw error;
+                }
+
+                // The server's offset says how much of the failed chunk arrived
+                await wait(1000 * attempt);
+                offset = await uploadsApi.getSession(session.uploadId).then(current => current.offset, () => start);
+            }
+
+            onProgress?.({ loaded: offset, total: file.size });
+        }
+
+        const uploaded = await uploadsApi.finalize(session.uploadId, referencePhotos);
+        localStorage.removeItem(uploadSessionKey(file));
+        rememberToken(uploaded.fileId, uploaded.accessToken);
+        return uploaded;
+    },
+
+    getStatus: async (fileId: string): Promise<JobStatusInfo> => {
+        const response = await apiClient.get<ApiResponse<JobStatusInfo>>(`/video/status/${fileId}`, withToken(fileId));
+        return response.data.data;
+    },
+
+    detect: async (fileId: string, options: DetectOptions = {}): Promise<void> => {
+        await apiClient.post(`/video/detect/${fileId}`, options, withToken(fileId));
+    },
+
+    getDetections: async (fileId: string): Promise<DetectionResult> => {
+        const response = await apiClient.get<ApiResponse<DetectionResult>>(
+            `/video/detections/${fileId}`,
+            withToken(fileId)
+        );
+        return response.data.data;
+    },
+
+    // Tracks in excludedTrackIds are left unblurred
+    render: async (fileId: string, options: RenderOptions, excludedTrackIds: string[]): Promise<void> => {
+        await apiClient.post(`/video/render/${fileId}`, { ...options, excludedTrackIds }, withToken(fileId));
+    },
+
+    // Stops a queued or running detection or render
+    cancel: async (fileId: string): Promise<void> => {
+        await apiClient.post(`/video/cancel/${fileId}`, undefined, withToken(fileId));
+    },
+
+    downloadUrl: (fileId: string): string =>
+        `${apiClient.defaults.baseURL}/video/download/${fileId}?${tokenQuery(fileId)}`,
+
+    thumbnailUrl: (fileId: string, trackId: string): string =>
+        `${apiClient.defaults.baseURL}/video/thumbnails/${fileId}/${trackId}?${tokenQuery(fileId)}`,
+};
+
+export const batchApi = {
+    // Reference photos apply to every file of the batch
+    upload: async (files: File[], referencePhotos: File[] = []): Promise<UploadedBatch> => {
+        const formData = new FormData();
+        files.forEach(file => formData.append('files', file));
+        referencePhotos.forEach(photo => formData.append('references', photo));
+
+        const response = await apiClient.post<ApiResponse<UploadedBatch>>('/upload/batch', formData);
+        const batch = response.data.data;
+
+        rememberToken(batch.batchId, batch.accessToken);
+        batch.files.forEach(file => rememberToken(file.fileId, file.accessToken));
+        return batch;
+    },
+
+    process: async (batchId: string, options: DetectOptions & RenderOptions): Promise<BatchStatusInfo> => {
+        const response = await apiClient.post<ApiResponse<BatchStatusInfo>>(
+            `/batch/${batchId}/process`,
+            options,
+            withToken(batchId)
+        );
+        return response.data.data;
+    },
+
+    getStatus: async (batchId: string): Promise<BatchStatusInfo> => {
+        const response = await apiClient.get<ApiResponse<BatchStatusInfo>>(`/batch/${batchId}`, withToken(batchId));
+        return response.data.data;
+    },
+
+    // Zip of every processed file plus a manifest.json listing the rest
+    archiveUrl: (batchId: string): string =>
+        `${apiClient.defaults.baseURL}/batch/${batchId}/archive?${tokenQuery(batchId)}`,
+
+    // Every file's token goes along, in the same order as the ids
+    filesArchiveUrl: (fileIds: string[]): string =>
+        `${apiClient.defaults.baseURL}/batch/archive?fileIds=${fileIds.map(encodeURIComponent).join(',')}`
+        + `&tokens=${fileIds.map(fileId => encodeURIComponent(accessTokens.get(fileId) || '')).join(',')}`,
+};